@@ -0,0 +1,178 @@
+import type { Message } from '@daaku/kombat'
+
+// Encryption configures at-rest encryption of the stored messages. The key
+// must be an HKDF key usable with deriveKey, such as one created using:
+//
+//   crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey'])
+//
+// The keys used to encrypt and authenticate are derived from it.
+export interface Encryption {
+  readonly key: CryptoKey
+  // Also encrypt the row ids and columns. These are encrypted
+  // deterministically, since messages are looked up by them, so equal values
+  // still result in equal ciphertexts. Datasets are never encrypted.
+  readonly ids?: boolean
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// Length of the AES-GCM initialization vector.
+const ivLength = 12
+
+export const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''))
+
+export const fromBase64 = (s: string) =>
+  Uint8Array.from(atob(s), c => c.charCodeAt(0))
+
+const derive = (
+  key: CryptoKey,
+  info: string,
+  algorithm: AesKeyGenParams | HmacKeyGenParams,
+  usages: KeyUsage[],
+) =>
+  crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: encoder.encode(`kombat-indexed-db:${info}`),
+    },
+    key,
+    algorithm,
+    false,
+    usages,
+  )
+
+// Cipher seals messages before they are stored, and opens them after they are
+// read. Only the value, and optionally the row id and column, are sealed. The
+// timestamp and dataset are left as is, since they are indexed.
+export class Cipher {
+  readonly #aes: CryptoKey
+  readonly #hmac: CryptoKey
+  readonly #ids: boolean
+
+  private constructor(aes: CryptoKey, hmac: CryptoKey, ids: boolean) {
+    this.#aes = aes
+    this.#hmac = hmac
+    this.#ids = ids
+  }
+
+  static async new({ key, ids = false }: Encryption): Promise<Cipher> {
+    const [aes, hmac] = await Promise.all([
+      derive(key, 'aes', { name: 'AES-GCM', length: 256 }, [
+        'encrypt',
+        'decrypt',
+      ]),
+      derive(key, 'hmac', { name: 'HMAC', hash: 'SHA-256' }, ['sign']),
+    ])
+    return new Cipher(aes, hmac, ids)
+  }
+
+  async #encrypt(
+    iv: Uint8Array<ArrayBuffer>,
+    data: Uint8Array<ArrayBuffer>,
+    additionalData?: Uint8Array<ArrayBuffer>,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const sealed = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, ...(additionalData && { additionalData }) },
+      this.#aes,
+      data,
+    )
+    const out = new Uint8Array(ivLength + sealed.byteLength)
+    out.set(iv)
+    out.set(new Uint8Array(sealed), ivLength)
+    return out
+  }
+
+  async #decrypt(
+    sealed: Uint8Array<ArrayBuffer>,
+    additionalData?: Uint8Array<ArrayBuffer>,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const data = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: sealed.subarray(0, ivLength),
+        ...(additionalData && { additionalData }),
+      },
+      this.#aes,
+      sealed.subarray(ivLength),
+    )
+    return new Uint8Array(data)
+  }
+
+  // ids use an initialization vector derived from the plaintext, which keeps
+  // them deterministic without reusing one for different plaintexts.
+  async #sealId(kind: string, id: string): Promise<string> {
+    const data = encoder.encode(id)
+    const mac = await crypto.subtle.sign(
+      'HMAC',
+      this.#hmac,
+      encoder.encode(`${kind}:${id}`),
+    )
+    const iv = new Uint8Array(mac, 0, ivLength)
+    return toBase64(await this.#encrypt(iv, data))
+  }
+
+  async #openId(sealed: string): Promise<string> {
+    return decoder.decode(await this.#decrypt(fromBase64(sealed)))
+  }
+
+  // Seal the row id and column, which is enough to look up the latest message
+  // for the same cell.
+  async sealCell(msg: Message): Promise<Message> {
+    if (!this.#ids) {
+      return msg
+    }
+    const [row, column] = await Promise.all([
+      this.#sealId('row', msg.row),
+      this.#sealId('column', msg.column),
+    ])
+    return { ...msg, row, column }
+  }
+
+  async seal(msg: Message): Promise<Message> {
+    // the value is bound to the message, so it can not be moved to another.
+    const iv = crypto.getRandomValues(new Uint8Array(ivLength))
+    const [cell, value] = await Promise.all([
+      this.sealCell(msg),
+      this.#encrypt(
+        iv,
+        encoder.encode(JSON.stringify({ value: msg.value })),
+        encoder.encode(msg.timestamp),
+      ),
+    ])
+    return { ...cell, value }
+  }
+
+  async open(msg: Message): Promise<Message> {
+    const [row, column, value] = await Promise.all([
+      this.#ids ? this.#openId(msg.row) : msg.row,
+      this.#ids ? this.#openId(msg.column) : msg.column,
+      this.#decrypt(
+        msg.value as Uint8Array<ArrayBuffer>,
+        encoder.encode(msg.timestamp),
+      ),
+    ])
+    return {
+      ...msg,
+      row,
+      column,
+      value: JSON.parse(decoder.decode(value)).value,
+    }
+  }
+}
+
+// Seal or open messages, passing them through as is without a cipher.
+export const sealAll = async (
+  cipher: Cipher | undefined,
+  messages: Message[],
+): Promise<Message[]> =>
+  cipher ? await Promise.all(messages.map(msg => cipher.seal(msg))) : messages
+
+export const openAll = async (
+  cipher: Cipher | undefined,
+  messages: Message[],
+): Promise<Message[]> =>
+  cipher ? await Promise.all(messages.map(msg => cipher.open(msg))) : messages
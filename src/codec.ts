@@ -0,0 +1,122 @@
+import { fromBase64, toBase64 } from './cipher.js'
+
+// Codec encodes values that JSON can not represent into values it can, so they
+// survive syncing with the Remote and with other replicas, which exchange
+// messages as JSON.
+export interface Codec<T = unknown> {
+  // Tag identifying the values encoded by the codec, unique among the codecs.
+  // Schemas use it as the type of columns holding these values.
+  readonly tag: string
+  // Check if the codec encodes the value.
+  is(value: unknown): value is T
+  // Encode the value into one that JSON can represent, and decode it again.
+  encode(value: T): unknown
+  decode(encoded: unknown): T
+}
+
+// Encoded values are objects holding the tag of the codec under this key, and
+// the encoded value.
+const kCodec = '$codec'
+
+export const dateCodec: Codec<Date> = {
+  tag: 'date',
+  is: v => v instanceof Date,
+  encode: (v: Date) => v.toISOString(),
+  decode: (s: string) => new Date(s),
+}
+
+export const bigintCodec: Codec<bigint> = {
+  tag: 'bigint',
+  is: v => typeof v === 'bigint',
+  encode: (v: bigint) => v.toString(),
+  decode: (s: string) => BigInt(s),
+}
+
+export const bytesCodec: Codec<Uint8Array> = {
+  tag: 'bytes',
+  is: v => v instanceof Uint8Array,
+  encode: toBase64,
+  decode: fromBase64,
+}
+
+export const defaultCodecs: readonly Codec[] = [
+  dateCodec,
+  bigintCodec,
+  bytesCodec,
+]
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => {
+  if (typeof v !== 'object' || v === null) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(v)
+  return proto === Object.prototype || proto === null
+}
+
+// Codecs is a registry of codecs, tried in order. Values are encoded wherever
+// they are in a message value, including within arrays and the objects in
+// them. Encoded values with an unknown tag, such as from a replica with more
+// codecs, are decoded as is.
+export class Codecs {
+  readonly #codecs: readonly Codec[]
+  readonly #byTag = new Map<string, Codec>()
+
+  constructor(codecs: readonly Codec[] = defaultCodecs) {
+    codecs.forEach(codec => {
+      if (this.#byTag.has(codec.tag)) {
+        throw new Error(`duplicate codec tag "${codec.tag}"`)
+      }
+      this.#byTag.set(codec.tag, codec)
+    })
+    this.#codecs = codecs
+  }
+
+  // Check if one of the codecs encodes the value itself.
+  encodes(value: unknown): boolean {
+    return this.#codecs.some(codec => codec.is(value))
+  }
+
+  // The tag of the codec that encodes the value itself, if any.
+  tagOf(value: unknown): string | undefined {
+    return this.#codecs.find(codec => codec.is(value))?.tag
+  }
+
+  // Copy a value, keeping the values the codecs encode as they are. Unlike
+  // structuredClone, this keeps the class of values such as class instances.
+  clone<T>(value: T): T {
+    return this.decode(structuredClone(this.encode(value))) as T
+  }
+
+  encode(value: unknown): unknown {
+    const codec = this.#codecs.find(codec => codec.is(value))
+    if (codec) {
+      return { [kCodec]: codec.tag, value: codec.encode(value) }
+    }
+    if (Array.isArray(value)) {
+      return value.map(v => this.encode(v))
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.encode(v)]),
+      )
+    }
+    return value
+  }
+
+  decode(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(v => this.decode(v))
+    }
+    if (!isPlainObject(value)) {
+      return value
+    }
+    const codec =
+      typeof value[kCodec] === 'string' && this.#byTag.get(value[kCodec])
+    if (codec) {
+      return codec.decode(value.value)
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, this.decode(v)]),
+    )
+  }
+}
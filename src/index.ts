@@ -1,8 +1,57 @@
+import { Clock, Timestamp } from '@daaku/kombat'
 import type { Local, Message } from '@daaku/kombat'
-import { IDBPDatabase } from 'idb'
+import { IDBPDatabase, IDBPTransaction } from 'idb'
+import { Cipher, Encryption, openAll, sealAll } from './cipher.js'
+import { Codecs } from './codec.js'
+import {
+  changesOf,
+  clockNode,
+  clockTimestamp,
+  Compacted,
+  compactedOf,
+  decodeWith,
+  isCompacted,
+  isConflict,
+  kClock,
+  kLastSync,
+  kPurged,
+  kTombstone,
+  Latest,
+  latestMessageKey,
+  Listeners,
+  memFromLatest,
+  messageOf,
+  Policies,
+  replicaNode,
+  sizeOf,
+  withNewNode,
+} from './local.js'
+import {
+  readReplica,
+  replicaFormat,
+  replicaLine,
+  replicaPageSize,
+  replicaVersion,
+} from './replica.js'
 
-function latestMessageKey(msg: Message): string {
-  return `${msg.dataset}:${msg.row}:${msg.column}`
+export type { Encryption } from './cipher.js'
+export { Codecs, defaultCodecs } from './codec.js'
+export type { Codec } from './codec.js'
+
+// Index on the dataset of the messages in the latest message store.
+const kDatasetIndex = 'dataset'
+
+// Index on the cell of the messages in the message log, used for history.
+const kCellIndex = 'cell'
+const cellKeyPath = ['dataset', 'row', 'column']
+
+// The tombstone cell for the row of a message, sealed if there is a cipher.
+async function tombstoneCell(
+  cipher: Cipher | undefined,
+  { dataset, row }: { dataset: string; row: string },
+): Promise<Message> {
+  const cell = { timestamp: '', dataset, row, column: kTombstone }
+  return cipher ? await cipher.sealCell(cell) : cell
 }
 
 // Changes are keyed by dataset, then row ID, then column mapped to value.
@@ -16,6 +65,50 @@ export interface Changes {
 
 export type ChangeListener = { (changes: Changes): void }
 
+// Snapshot holds materialized rows keyed by dataset, then row ID.
+export interface Snapshot {
+  [key: string]: {
+    [key: string]: {
+      [key: string]: unknown
+    }
+  }
+}
+
+// Watch changes scoped to a dataset, and optionally a row and a column within
+// it. Returned function can be called to unsubscribe.
+export interface Watch {
+  (dataset: string, cb: ChangeListener): () => void
+  (dataset: string, row: string, cb: ChangeListener): () => void
+  (dataset: string, row: string, column: string, cb: ChangeListener): () => void
+}
+
+// The parameters of each Watch overload.
+export type WatchArgs =
+  | [dataset: string, cb: ChangeListener]
+  | [dataset: string, row: string, cb: ChangeListener]
+  | [dataset: string, row: string, column: string, cb: ChangeListener]
+
+// How an incoming message is handled. Messages that are not accepted are kept
+// in the log so sync converges, but are never applied. Quarantined messages are
+// additionally kept aside for review.
+export type MessagePolicy = 'accept' | 'drop' | 'quarantine'
+
+export type MessageFilter = { (msg: Message): MessagePolicy }
+
+// Conflict is a cell written concurrently by this replica and another one,
+// where the loser is the message that did not become the latest. Writes are
+// known to be concurrent when the remote write is older than the local one, or
+// when it overwrote the local one before it was synced, or when the local write
+// was made before the remote one was received, since either way neither writer
+// could have seen the other write. Writes by other replicas are never known to
+// be concurrent.
+export interface Conflict {
+  readonly winner: Message
+  readonly loser: Message
+}
+
+export type ConflictListener = { (conflicts: Conflict[]): void }
+
 export function syncDatasetIndexedDB(
   db: IDBPDatabase,
   prefix = '',
@@ -65,140 +158,967 @@ export function syncDatasetMem(mem: any): ChangeListener {
   }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function loadDatasetMem(mem: any, db: IDBPDatabase, prefix = '') {
-  ;(await db.getAll(`${prefix}message_latest`)).forEach(
-    ({ dataset, row, column, value }) => {
-      let d = mem[dataset]
-      if (!d) {
-        d = mem[dataset] = {}
-      }
-      let r = d[row]
-      if (!r) {
-        r = d[row] = { id: row }
-      }
-      r[column] = value
-    },
-  )
+// Load the latest values into mem. If datasets are given, only those are
+// loaded, using the dataset index where it exists. The encryption must match
+// the one used by the LocalIndexedDB that stored the messages.
+export async function loadDatasetMem(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  mem: any,
+  db: IDBPDatabase,
+  prefix = '',
+  datasets?: string[],
+  encryption?: Encryption,
+  codecs?: Codecs,
+) {
+  let messages = await queryLatest(db, `${prefix}message_latest`, datasets)
+  if (encryption) {
+    messages = await openAll(await Cipher.new(encryption), messages)
+  }
+  memFromLatest(mem, messages, codecs)
+}
+
+// Query the latest messages, optionally only those in some datasets.
+async function queryLatest(
+  db: IDBPDatabase,
+  storeName: string,
+  datasets?: string[],
+): Promise<Latest[]> {
+  if (!datasets) {
+    return await db.getAll(storeName)
+  }
+  const t = db.transaction(storeName)
+  let messages: Latest[]
+  if (t.store.indexNames.contains(kDatasetIndex)) {
+    const index = t.store.index(kDatasetIndex)
+    messages = (
+      await Promise.all(datasets.map(dataset => index.getAll(dataset)))
+    ).flat()
+  } else {
+    messages = (await t.store.getAll()).filter(msg =>
+      datasets.includes(msg.dataset),
+    )
+  }
+  await t.done
+  return messages
+}
+
+// Approximate sizes in bytes of the entries in the stores holding the message
+// log, the latest messages and the meta data.
+export interface StoreSizes {
+  readonly message_log: number
+  readonly message_latest: number
+  readonly message_meta: number
 }
 
-export class LocalIndexedDB implements Local {
-  #db!: IDBPDatabase
+// StoreLocal is the Local a Store is built on, implemented by LocalIndexedDB
+// and LocalMemory.
+export interface StoreLocal extends Local {
+  setMessageFilter(filter: MessageFilter): void
+  setCodecs(codecs: Codecs): void
+  listenChanges(cb: ChangeListener): () => void
+  notifyChanges(changes: Changes): void
+  listenStored(cb: (messages: Message[]) => void): () => void
+  listenConflicts(cb: ConflictListener): () => void
+  watch: Watch
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  loadDatasets(mem: any, datasets?: string[]): Promise<void>
+  queryHistory(
+    dataset: string,
+    row: string,
+    column?: string,
+  ): Promise<Message[]>
+  snapshotAt(timestamp: string, datasets?: string[]): Promise<Snapshot>
+  exportReplica(opts?: { plaintext?: boolean }): ReadableStream<string>
+  importReplica(
+    input: ReadableStream<string> | string,
+    opts?: { replace?: boolean },
+  ): Promise<number>
+  queryDatasets(): Promise<string[]>
+  queryUnsynced(): Promise<{ lastSync?: string; count: number }>
+  queryQuarantinedMessages(): Promise<Message[]>
+  rotateKey(encryption?: Encryption): Promise<void>
+  purgeTombstones(horizon: string): Promise<{ dataset: string; row: string }[]>
+  hasPurged(): Promise<boolean>
+  purgedElsewhere(): void
+  replacedElsewhere(): void
+  compact(horizon: string): Promise<number>
+  queryStoreSizes(): Promise<StoreSizes>
+}
+
+export class LocalIndexedDB implements StoreLocal {
+  #db!: IDBPDatabase | Promise<IDBPDatabase>
+  #cipher?: Promise<Cipher>
+  #rotating: Promise<void> = Promise.resolve()
   readonly #messageLogStoreName: string
   readonly #latestMessageStoreName: string
   readonly #messageMetaStoreName: string
-  #changeListeners: ChangeListener[] = []
+  readonly #messageQuarantineStoreName: string
+  readonly #policies = new Policies()
+  #codecs?: Codecs
+  readonly #listeners = new Listeners()
+  // the stored clock, as last read or written.
+  #clock?: string
+  // whether deleted rows have been purged, once known.
+  #purged?: boolean
 
-  // Construct a LocalIndexedDB instance.
-  constructor(internalPrefix = '') {
+  // Construct a LocalIndexedDB instance. With encryption, the message values,
+  // and optionally row ids and columns, are encrypted before they are stored
+  // and decrypted when they are queried.
+  constructor(internalPrefix = '', encryption?: Encryption) {
     this.#messageLogStoreName = `${internalPrefix}message_log`
     this.#latestMessageStoreName = `${internalPrefix}message_latest`
     this.#messageMetaStoreName = `${internalPrefix}message_meta`
+    this.#messageQuarantineStoreName = `${internalPrefix}message_quarantine`
+    this.#cipher = encryption && Cipher.new(encryption)
+  }
+
+  // The cipher to use, once a key rotation in progress is done.
+  async #currentCipher(): Promise<Cipher | undefined> {
+    await this.#rotating
+    return await this.#cipher
+  }
+
+  // Set the filter that decides how incoming messages are handled.
+  public setMessageFilter(filter: MessageFilter): void {
+    this.#policies.setFilter(filter)
+  }
+
+  #policy(msg: Message): MessagePolicy {
+    return this.#policies.of(msg)
+  }
+
+  // Set the codecs used to decode the message values in changes, loaded
+  // datasets and snapshots. The values are stored encoded, as they are sent.
+  public setCodecs(codecs: Codecs): void {
+    this.#codecs = codecs
   }
 
   // Add a listener for changes. Returned function can be called to unsubscribe.
   public listenChanges(cb: ChangeListener): () => void {
-    this.#changeListeners.push(cb)
-    return () => {
-      this.#changeListeners = this.#changeListeners.filter(e => e != cb)
-    }
+    return this.#listeners.listenChanges(cb)
   }
 
-  // This method should be called in your upgrade callback.
-  public upgradeDB(db: IDBPDatabase): void {
+  // Notify the change listeners of changes made without messages, such as when
+  // rolling back a write that failed to be stored.
+  public notifyChanges(changes: Changes): void {
+    this.#listeners.changed(changes)
+  }
+
+  // Add a listener for messages newly stored in the log, called once they have
+  // been committed. Returned function can be called to unsubscribe.
+  public listenStored(cb: (messages: Message[]) => void): () => void {
+    return this.#listeners.listenStored(cb)
+  }
+
+  // Add a listener for conflicts, called once the messages that caused them
+  // have been committed. Returned function can be called to unsubscribe.
+  public listenConflicts(cb: ConflictListener): () => void {
+    return this.#listeners.listenConflicts(cb)
+  }
+
+  // Watch changes scoped to a dataset, row or column. Listeners are only called
+  // when the scope they watch is affected, and only with that subset of the
+  // changes.
+  public watch(dataset: string, cb: ChangeListener): () => void
+  public watch(dataset: string, row: string, cb: ChangeListener): () => void
+  public watch(
+    dataset: string,
+    row: string,
+    column: string,
+    cb: ChangeListener,
+  ): () => void
+  public watch(
+    dataset: string,
+    ...args: (string | ChangeListener)[]
+  ): () => void {
+    const cb = args.pop() as ChangeListener
+    const [row, column] = args as string[]
+    return this.#listeners.watch(dataset, row, column, cb)
+  }
+
+  // This method should be called in your upgrade callback. Pass in the upgrade
+  // transaction to allow adding indexes to object stores created by older
+  // versions.
+  public upgradeDB(
+    db: IDBPDatabase,
+    transaction?: IDBPTransaction<unknown, string[], 'versionchange'>,
+  ): void {
     if (!db.objectStoreNames.contains(this.#messageLogStoreName)) {
-      db.createObjectStore(this.#messageLogStoreName, { keyPath: 'timestamp' })
+      db.createObjectStore(this.#messageLogStoreName, {
+        keyPath: 'timestamp',
+      }).createIndex(kCellIndex, cellKeyPath)
+    } else if (transaction) {
+      const store = transaction.objectStore(this.#messageLogStoreName)
+      if (!store.indexNames.contains(kCellIndex)) {
+        store.createIndex(kCellIndex, cellKeyPath)
+      }
+    }
+    if (!db.objectStoreNames.contains(this.#messageQuarantineStoreName)) {
+      db.createObjectStore(this.#messageQuarantineStoreName, {
+        keyPath: 'timestamp',
+      })
+    }
+    if (!db.objectStoreNames.contains(this.#latestMessageStoreName)) {
+      db.createObjectStore(this.#latestMessageStoreName).createIndex(
+        kDatasetIndex,
+        'dataset',
+      )
+    } else if (transaction) {
+      const store = transaction.objectStore(this.#latestMessageStoreName)
+      if (!store.indexNames.contains(kDatasetIndex)) {
+        store.createIndex(kDatasetIndex, 'dataset')
+      }
+    }
+    if (!db.objectStoreNames.contains(this.#messageMetaStoreName)) {
+      db.createObjectStore(this.#messageMetaStoreName)
     }
-    ;[this.#latestMessageStoreName, this.#messageMetaStoreName].forEach(
-      name => {
-        if (!db.objectStoreNames.contains(name)) {
-          db.createObjectStore(name)
-        }
-      },
-    )
   }
 
   // This should be called with the initialized DB before you begin using the
-  // instance.
-  public setDB(db: IDBPDatabase): void {
+  // instance. A promise may be given while the DB is being reopened, such as
+  // for a version change, and operations will wait for it.
+  public setDB(db: IDBPDatabase | Promise<IDBPDatabase>): void {
     this.#db = db
   }
 
+  // Load the latest values into mem, like loadDatasetMem.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public async loadDatasets(mem: any, datasets?: string[]): Promise<void> {
+    const cipher = await this.#currentCipher()
+    const db = await this.#db
+    const messages = await queryLatest(
+      db,
+      this.#latestMessageStoreName,
+      datasets,
+    )
+    memFromLatest(mem, await openAll(cipher, messages), this.#codecs)
+  }
+
   public async applyChanges(messages: Message[]): Promise<void> {
-    // consolidate the changes by dataset as well as row id.
-    // consolidating by row id is important because if we have multiple changes
-    // to the same row we will not read changes made within the transaction,
-    // there by causing only the last write to survive.
-    const changes: Changes = {}
-    messages.map(msg => {
-      let dataset = changes[msg.dataset]
-      if (!dataset) {
-        dataset = changes[msg.dataset] = {}
-      }
-      let row = dataset[msg.row]
-      if (!row) {
-        row = dataset[msg.row] = {}
+    const changes = changesOf(messages, msg => this.#policy(msg), this.#codecs)
+    await this.#keepPurgedDeleted(changes)
+    this.#listeners.changed(changes)
+  }
+
+  // Rows that were purged stay deleted when they are changed again, the same
+  // as they would had they not been purged, unless the change includes their
+  // tombstone.
+  async #keepPurgedDeleted(changes: Changes) {
+    const rows = Object.entries(changes).flatMap(([dataset, rows]) =>
+      Object.keys(rows)
+        .filter(row => !(kTombstone in rows[row]))
+        .map(row => ({ dataset, row })),
+    )
+    if (rows.length === 0 || !(await this.hasPurged())) {
+      return
+    }
+    const cipher = await this.#currentCipher()
+    const cells = await Promise.all(rows.map(row => tombstoneCell(cipher, row)))
+    const db = await this.#db
+    const t = db.transaction(this.#latestMessageStoreName)
+    const tombstones: (Latest | undefined)[] = await Promise.all(
+      cells.map(cell => t.store.get(latestMessageKey(cell))),
+    )
+    await t.done
+    tombstones.forEach((tombstone, i) => {
+      if (tombstone?.purged) {
+        changes[rows[i].dataset][rows[i].row][kTombstone] = true
       }
-      row[msg.column] = msg.value
     })
-    this.#changeListeners.forEach(c => c(changes))
   }
 
   public async storeMessages(messages: Message[]): Promise<boolean[]> {
-    const t = this.#db.transaction(
-      [this.#messageLogStoreName, this.#latestMessageStoreName],
+    // encryption must happen before the transaction, since it would otherwise
+    // commit while waiting on it.
+    const cipher = await this.#currentCipher()
+    const sealed = await sealAll(cipher, messages)
+    const purged = await this.hasPurged()
+    const tombstones = purged
+      ? await Promise.all(sealed.map(msg => tombstoneCell(cipher, msg)))
+      : []
+    const detectConflicts = this.#listeners.detectConflicts
+    const lastSync = detectConflicts ? await this.get(kLastSync) : undefined
+    const clock = this.#clock ?? (await this.get(kClock))
+    const node = clockNode(clock)
+    const received = clockTimestamp(clock)
+    // sealed winners and losers, opened once the transaction is done.
+    const conflicts: [Message, Message][] = []
+    const db = await this.#db
+    // the quarantine store is only used with a filter, and is missing from
+    // databases that have not been upgraded since it was added.
+    const quarantine =
+      this.#policies.filtered &&
+      db.objectStoreNames.contains(this.#messageQuarantineStoreName)
+    const t = db.transaction(
+      [
+        this.#messageLogStoreName,
+        this.#latestMessageStoreName,
+        ...(quarantine ? [this.#messageQuarantineStoreName] : []),
+      ],
       'readwrite',
     )
     const messageLogStore = t.objectStore(this.#messageLogStoreName)
     const latestMessageStore = t.objectStore(this.#latestMessageStoreName)
     const results = await Promise.all(
-      messages.map(async msg => {
+      messages.map(async (msg, i) => {
         const row = await messageLogStore.get(msg.timestamp)
         if (!row) {
-          await messageLogStore.put(msg)
+          await messageLogStore.put(sealed[i])
+
+          // messages that are not accepted never become the latest.
+          const policy = this.#policy(msg)
+          if (policy !== 'accept') {
+            if (policy === 'quarantine' && quarantine) {
+              await t
+                .objectStore(this.#messageQuarantineStoreName)
+                .put(sealed[i])
+            }
+            return true
+          }
 
           // just stored a new message, update latestMessage if necessary
-          const key = latestMessageKey(msg)
-          const existingLatest: Message = await latestMessageStore.get(key)
+          const key = latestMessageKey(sealed[i])
+          let existingLatest: Latest | undefined =
+            await latestMessageStore.get(key)
+          // the tombstone of a purged row stands in for its purged cells.
+          if (!existingLatest && purged) {
+            const tombstone: Latest | undefined = await latestMessageStore.get(
+              latestMessageKey(tombstones[i]),
+            )
+            if (tombstone?.purged) {
+              existingLatest = tombstone
+            }
+          }
           if (!existingLatest || existingLatest.timestamp < msg.timestamp) {
-            await latestMessageStore.put(msg, key)
+            await latestMessageStore.put(
+              received ? { ...sealed[i], received } : sealed[i],
+              key,
+            )
+            if (
+              detectConflicts &&
+              existingLatest &&
+              isConflict(msg, existingLatest, node, lastSync)
+            ) {
+              conflicts.push([sealed[i], messageOf(existingLatest)])
+            }
+          } else if (
+            detectConflicts &&
+            isConflict(msg, existingLatest, node, lastSync)
+          ) {
+            conflicts.push([messageOf(existingLatest), sealed[i]])
           }
         }
         return !row
       }),
     )
     await t.done
+    this.#listeners.stored(messages.filter((_, i) => results[i]))
+    if (conflicts.length) {
+      this.#listeners.conflicted(
+        await Promise.all(
+          conflicts.map(async ([winner, loser]) => {
+            const [w, l] = await openAll(cipher, [winner, loser])
+            return { winner: w, loser: l }
+          }),
+        ),
+      )
+    }
     return results
   }
 
   public async queryMessages(since: string): Promise<Message[]> {
-    const t = this.#db.transaction(this.#messageLogStoreName)
+    const cipher = await this.#currentCipher()
+    const db = await this.#db
+    const t = db.transaction(this.#messageLogStoreName)
     const results: Message[] = []
     let cursor = await t.store.openCursor(IDBKeyRange.lowerBound(since))
     while (cursor) {
-      results.push(cursor.value)
+      if (!isCompacted(cursor.value)) {
+        results.push(cursor.value)
+      }
       cursor = await cursor.continue()
     }
     await t.done
-    return results
+    return await openAll(cipher, results)
   }
 
   public async queryLatestMessages(
     messages: Message[],
   ): Promise<(Message | undefined)[]> {
-    const t = this.#db.transaction(this.#latestMessageStoreName)
-    const results = await Promise.all(
-      messages.map(msg => t.store.get(latestMessageKey(msg))),
+    const cipher = await this.#currentCipher()
+    const cells = cipher
+      ? await Promise.all(messages.map(msg => cipher.sealCell(msg)))
+      : messages
+    const purged = await this.hasPurged()
+    const tombstones = purged
+      ? await Promise.all(cells.map(msg => tombstoneCell(cipher, msg)))
+      : []
+    const db = await this.#db
+    const t = db.transaction(this.#latestMessageStoreName)
+    const results: (Latest | undefined)[] = await Promise.all(
+      cells.map(async (msg, i) => {
+        const latest: Latest | undefined = await t.store.get(
+          latestMessageKey(msg),
+        )
+        if (latest || !purged) {
+          return latest && messageOf(latest)
+        }
+        // the tombstone of a purged row stands in for its purged cells, so
+        // only newer messages are applied.
+        const tombstone: Latest | undefined = await t.store.get(
+          latestMessageKey(tombstones[i]),
+        )
+        if (tombstone?.purged) {
+          return messageOf(tombstone)
+        }
+      }),
     )
     await t.done
-    return results
+    if (!cipher) {
+      return results
+    }
+    return await Promise.all(results.map(msg => msg && cipher.open(msg)))
+  }
+
+  // Query the messages for a cell, or for all the cells in a row if no column
+  // is given, in timestamp order. This uses the cell index where it exists.
+  public async queryHistory(
+    dataset: string,
+    row: string,
+    column?: string,
+  ): Promise<Message[]> {
+    const cipher = await this.#currentCipher()
+    const plain = { timestamp: '', dataset, row, column: column ?? '' }
+    const cell = cipher ? await cipher.sealCell(plain) : plain
+    const db = await this.#db
+    const t = db.transaction(this.#messageLogStoreName)
+    let messages: Message[]
+    if (t.store.indexNames.contains(kCellIndex)) {
+      messages = await t.store
+        .index(kCellIndex)
+        .getAll(
+          column === undefined
+            ? IDBKeyRange.bound(
+                [cell.dataset, cell.row],
+                [cell.dataset, cell.row, []],
+              )
+            : IDBKeyRange.only([cell.dataset, cell.row, cell.column]),
+        )
+    } else {
+      messages = (await t.store.getAll()).filter(
+        msg =>
+          !isCompacted(msg) &&
+          msg.dataset === cell.dataset &&
+          msg.row === cell.row &&
+          (column === undefined || msg.column === cell.column),
+      )
+    }
+    await t.done
+    messages.sort((m1, m2) => m1.timestamp.localeCompare(m2.timestamp))
+    return await openAll(cipher, messages)
+  }
+
+  // Materialize the rows as they were at the given timestamp, inclusive,
+  // optionally limited to some datasets. Deleted rows are included with their
+  // tombstone. Note that compaction drops history before its horizon, so
+  // snapshots before it may not be exact.
+  public async snapshotAt(
+    timestamp: string,
+    datasets?: string[],
+  ): Promise<Snapshot> {
+    const snapshot: Snapshot = {}
+    const cipher = await this.#currentCipher()
+    const db = await this.#db
+    const t = db.transaction(this.#messageLogStoreName)
+    let messages: Message[] = []
+    let cursor = await t.store.openCursor(IDBKeyRange.upperBound(timestamp))
+    while (cursor) {
+      const msg: Message | Compacted = cursor.value
+      if (!isCompacted(msg) && (!datasets || datasets.includes(msg.dataset))) {
+        messages.push(msg)
+      }
+      cursor = await cursor.continue()
+    }
+    await t.done
+    messages = await openAll(cipher, messages)
+    messages.forEach(msg => {
+      if (this.#policy(msg) !== 'accept') {
+        return
+      }
+      const dataset = (snapshot[msg.dataset] ??= {})
+      const row = (dataset[msg.row] ??= { id: msg.row })
+      if (msg.value === undefined) {
+        delete row[msg.column]
+      } else {
+        row[msg.column] = decodeWith(this.#codecs, msg.value)
+      }
+    })
+    return snapshot
+  }
+
+  // Export the replica as a stream of NDJSON lines, containing the meta entries
+  // followed by the message log. The log is read in pages, so it is never held
+  // in memory as a whole. Encrypted messages are exported decrypted, which
+  // must be asked for using the plaintext option, and the stream errors
+  // otherwise.
+  public exportReplica({
+    plaintext = false,
+  }: { plaintext?: boolean } = {}): ReadableStream<string> {
+    let meta = true
+    let last: string | undefined
+    return new ReadableStream<string>({
+      start: async controller => {
+        if (!plaintext && (await this.#currentCipher())) {
+          throw new Error('exporting encrypted messages requires plaintext')
+        }
+        controller.enqueue(
+          replicaLine({ format: replicaFormat, version: replicaVersion }),
+        )
+      },
+      pull: async controller => {
+        if (meta) {
+          meta = false
+          const db = await this.#db
+          const t = db.transaction(this.#messageMetaStoreName)
+          let cursor = await t.store.openCursor()
+          while (cursor) {
+            controller.enqueue(
+              replicaLine({ meta: [cursor.key as string, cursor.value] }),
+            )
+            cursor = await cursor.continue()
+          }
+          await t.done
+          return
+        }
+        const cipher = await this.#currentCipher()
+        const db = await this.#db
+        const entries: (Message | Compacted)[] = await db.getAll(
+          this.#messageLogStoreName,
+          last === undefined ? undefined : IDBKeyRange.lowerBound(last, true),
+          replicaPageSize,
+        )
+        if (entries.length === 0) {
+          controller.close()
+          return
+        }
+        const messages = await openAll(
+          cipher,
+          entries.filter((entry): entry is Message => !isCompacted(entry)),
+        )
+        entries.forEach(entry =>
+          controller.enqueue(
+            replicaLine(
+              isCompacted(entry)
+                ? { compacted: entry.timestamp }
+                : { message: messages.shift()! },
+            ),
+          ),
+        )
+        last = entries[entries.length - 1].timestamp
+      },
+    })
+  }
+
+  // Import a replica created by exportReplica. When replacing, all existing
+  // data is cleared and the meta entries are restored as they were, except
+  // that the clock gets a new node, as withNewNode describes. When
+  // merging, the messages are added to the existing ones and the stored clock
+  // is updated to include them, while the other meta entries are kept. This
+  // must not be used while a SyncDB is using the instance, since it holds its
+  // own copy of the clock. Returns the number of newly stored messages.
+  public async importReplica(
+    input: ReadableStream<string> | string,
+    { replace = false }: { replace?: boolean } = {},
+  ): Promise<number> {
+    let clock: Clock | undefined
+    if (replace) {
+      const db = await this.#db
+      const names = [
+        this.#messageLogStoreName,
+        this.#latestMessageStoreName,
+        this.#messageMetaStoreName,
+        this.#messageQuarantineStoreName,
+      ].filter(name => db.objectStoreNames.contains(name))
+      const t = db.transaction(names, 'readwrite')
+      await Promise.all(names.map(name => t.objectStore(name).clear()))
+      await t.done
+      this.#purged = false
+    } else {
+      const clockJSON = await this.get(kClock)
+      clock = clockJSON ? Clock.fromJSON(JSON.parse(clockJSON)) : new Clock()
+    }
+
+    let stored = 0
+    let batch: Message[] = []
+    const flush = async () => {
+      stored += await this.#importMessages(batch, clock)
+      batch = []
+    }
+    for await (const entry of readReplica(input)) {
+      if ('meta' in entry) {
+        if (replace) {
+          const [key, value] = entry.meta
+          await this.set(key, key === kClock ? withNewNode(value) : value)
+        }
+        continue
+      }
+      // compacted messages are only restored when replacing, since the merkle
+      // in the restored clock already includes them.
+      if ('compacted' in entry) {
+        if (replace) {
+          const db = await this.#db
+          await db.put(this.#messageLogStoreName, compactedOf(entry.compacted))
+        }
+        continue
+      }
+      batch.push(entry.message)
+      if (batch.length === replicaPageSize) {
+        await flush()
+      }
+    }
+    await flush()
+    if (clock) {
+      await this.set(kClock, JSON.stringify(clock))
+    }
+    return stored
+  }
+
+  // Apply and store the messages the same way SyncDB does, including the newly
+  // stored ones in the clock if one is given.
+  async #importMessages(messages: Message[], clock?: Clock): Promise<number> {
+    if (messages.length === 0) {
+      return 0
+    }
+    messages.sort((m1, m2) => m1.timestamp.localeCompare(m2.timestamp))
+    const latest = await this.queryLatestMessages(messages)
+    await this.applyChanges(
+      messages.filter(
+        (msg, i) => !latest[i] || latest[i].timestamp < msg.timestamp,
+      ),
+    )
+    const inserted = await this.storeMessages(messages)
+    inserted.forEach((include, i) => {
+      if (include && clock) {
+        const ts = Timestamp.fromJSON(messages[i].timestamp)
+        clock.recv(ts)
+        clock.merkle.insert(ts)
+      }
+    })
+    return inserted.filter(include => include).length
+  }
+
+  // Query the names of the datasets with at least one message.
+  public async queryDatasets(): Promise<string[]> {
+    const db = await this.#db
+    const t = db.transaction(this.#latestMessageStoreName)
+    const datasets: string[] = []
+    let cursor = await t.store
+      .index(kDatasetIndex)
+      .openKeyCursor(null, 'nextunique')
+    while (cursor) {
+      datasets.push(cursor.key as string)
+      cursor = await cursor.continue()
+    }
+    await t.done
+    return datasets
+  }
+
+  // Query the timestamp of the last sync, and the number of messages written
+  // by this replica since then, which the next sync sends to the Remote. Only
+  // the timestamps are read, since they include the node.
+  public async queryUnsynced(): Promise<{ lastSync?: string; count: number }> {
+    const lastSync = await this.get(kLastSync)
+    const node = clockNode(await this.get(kClock))
+    const db = await this.#db
+    const t = db.transaction(this.#messageLogStoreName)
+    let count = 0
+    let cursor = await t.store.openKeyCursor(
+      lastSync === undefined ? undefined : IDBKeyRange.lowerBound(lastSync),
+    )
+    while (cursor) {
+      const { nodeID } = Timestamp.fromJSON(cursor.key as string)
+      if (replicaNode(nodeID) === node) {
+        count++
+      }
+      cursor = await cursor.continue()
+    }
+    await t.done
+    return { lastSync, count }
+  }
+
+  // Query the messages that were quarantined by the message filter.
+  public async queryQuarantinedMessages(): Promise<Message[]> {
+    const cipher = await this.#currentCipher()
+    const db = await this.#db
+    if (!db.objectStoreNames.contains(this.#messageQuarantineStoreName)) {
+      return []
+    }
+    return await openAll(
+      cipher,
+      await db.getAll(this.#messageQuarantineStoreName),
+    )
+  }
+
+  // Encrypt the stored messages again using a new encryption, or store them in
+  // plaintext if none is given. The messages are held in memory while this
+  // happens, and other operations wait until it is done. Like importReplica,
+  // this must not be used while other operations are in flight.
+  public async rotateKey(encryption?: Encryption): Promise<void> {
+    const prev = await this.#currentCipher()
+    let release!: () => void
+    this.#rotating = new Promise(resolve => (release = resolve))
+    try {
+      const next = encryption && (await Cipher.new(encryption))
+      const db = await this.#db
+      const names = [
+        this.#messageLogStoreName,
+        this.#latestMessageStoreName,
+        this.#messageQuarantineStoreName,
+      ].filter(name => db.objectStoreNames.contains(name))
+      const read = db.transaction(names)
+      const stored: (Message | Compacted)[][] = await Promise.all(
+        names.map(name => read.objectStore(name).getAll()),
+      )
+      await read.done
+      // compacted messages hold nothing to encrypt, and are kept as they are.
+      const resealed = await Promise.all(
+        stored.map(async entries => [
+          ...entries.filter(isCompacted),
+          ...(await sealAll(
+            next,
+            await openAll(
+              prev,
+              entries.filter((entry): entry is Message => !isCompacted(entry)),
+            ),
+          )),
+        ]),
+      )
+      const write = (await this.#db).transaction(names, 'readwrite')
+      await Promise.all(
+        names.map(async (name, i) => {
+          const store = write.objectStore(name)
+          await store.clear()
+          await Promise.all(
+            resealed[i].map(msg =>
+              name === this.#latestMessageStoreName && !isCompacted(msg)
+                ? store.put(msg, latestMessageKey(msg))
+                : store.put(msg),
+            ),
+          )
+        }),
+      )
+      await write.done
+      this.#cipher = next && Promise.resolve(next)
+    } finally {
+      release()
+    }
+  }
+
+  // Purge rows deleted before the horizon from the latest message store. Only
+  // their tombstone is kept, marked as purged. Like compact, the horizon is
+  // clamped to the last sync. Messages for purged rows that arrive late are
+  // kept in the log, but only those newer than the tombstone are applied, and
+  // the rows stay deleted unless the tombstone is cleared. Returns the purged
+  // rows.
+  public async purgeTombstones(
+    horizon: string,
+  ): Promise<{ dataset: string; row: string }[]> {
+    const lastSync = await this.get(kLastSync)
+    if (!lastSync) {
+      return []
+    }
+    if (lastSync < horizon) {
+      horizon = lastSync
+    }
+    const cipher = await this.#currentCipher()
+    const { column } = await tombstoneCell(cipher, { dataset: '', row: '' })
+
+    // the tombstones are decrypted outside the transaction, to check they are
+    // still set.
+    const found: Latest[] = []
+    const read = (await this.#db).transaction(this.#latestMessageStoreName)
+    let cursor = await read.store.openCursor()
+    while (cursor) {
+      const msg: Latest = cursor.value
+      if (msg.column === column && !msg.purged && msg.timestamp < horizon) {
+        found.push(msg)
+      }
+      cursor = await cursor.continue()
+    }
+    await read.done
+    const opened = await openAll(cipher, found)
+    const deleted = found.filter((_, i) => opened[i].value === true)
+    if (deleted.length === 0) {
+      return []
+    }
+
+    const t = (await this.#db).transaction(
+      [this.#latestMessageStoreName, this.#messageMetaStoreName],
+      'readwrite',
+    )
+    const latestMessageStore = t.objectStore(this.#latestMessageStoreName)
+    const purged = await Promise.all(
+      deleted.map(async msg => {
+        const key = latestMessageKey(msg)
+        // skip rows that were restored meanwhile.
+        const current: Latest | undefined = await latestMessageStore.get(key)
+        if (current?.timestamp !== msg.timestamp) {
+          return false
+        }
+        // the prefix may also match other rows with a colon in their id.
+        const prefix = `${msg.dataset}:${msg.row}:`
+        let cursor = await latestMessageStore.openCursor(
+          IDBKeyRange.bound(prefix, prefix + '\uffff'),
+        )
+        while (cursor) {
+          const cell: Message = cursor.value
+          if (
+            cursor.key !== key &&
+            cell.dataset === msg.dataset &&
+            cell.row === msg.row
+          ) {
+            await cursor.delete()
+          }
+          cursor = await cursor.continue()
+        }
+        await latestMessageStore.put({ ...msg, purged: true }, key)
+        return true
+      }),
+    )
+    if (purged.includes(true)) {
+      await t.objectStore(this.#messageMetaStoreName).put('true', kPurged)
+    }
+    await t.done
+    if (purged.includes(true)) {
+      this.#purged = true
+    }
+    return opened
+      .filter(msg => msg.value === true)
+      .filter((_, i) => purged[i])
+      .map(({ dataset, row }) => ({ dataset, row }))
+  }
+
+  // Check if deleted rows have been purged. The answer is cached, since it is
+  // checked whenever changes are applied.
+  public async hasPurged(): Promise<boolean> {
+    return this.#purged ?? (await this.get(kPurged)) !== undefined
+  }
+
+  // Note that deleted rows were purged by another connection to the database.
+  public purgedElsewhere(): void {
+    this.#purged = true
+  }
+
+  // Note that the data was replaced by another connection to the database, so
+  // nothing cached about it is current.
+  public replacedElsewhere(): void {
+    this.#clock = undefined
+    this.#purged = undefined
+  }
+
+  // Compact the message log by dropping messages older than the horizon that
+  // have already been shadowed by a newer message for the same cell. The
+  // horizon is clamped to the last sync, since messages that have not yet
+  // reached the Remote must be kept for the merkle to converge. Messages at or
+  // after the horizon are untouched, so queryMessages for those remains exact.
+  // Messages for purged rows older than their tombstone are dropped too. Only
+  // the timestamp of dropped messages is kept, so storing them again, such as
+  // when a sync resends them, is still a duplicate. Returns the number of
+  // messages that were dropped.
+  public async compact(horizon: string): Promise<number> {
+    const lastSync = await this.get(kLastSync)
+    if (!lastSync) {
+      return 0
+    }
+    if (lastSync < horizon) {
+      horizon = lastSync
+    }
+    const { column } = await tombstoneCell(await this.#currentCipher(), {
+      dataset: '',
+      row: '',
+    })
+    const db = await this.#db
+    const t = db.transaction(
+      [this.#messageLogStoreName, this.#latestMessageStoreName],
+      'readwrite',
+    )
+    const latestMessageStore = t.objectStore(this.#latestMessageStoreName)
+    let dropped = 0
+    let cursor = await t
+      .objectStore(this.#messageLogStoreName)
+      .openCursor(IDBKeyRange.upperBound(horizon, true))
+    while (cursor) {
+      const msg: Message | Compacted = cursor.value
+      if (isCompacted(msg)) {
+        cursor = await cursor.continue()
+        continue
+      }
+      let latest: Latest | undefined = await latestMessageStore.get(
+        latestMessageKey(msg),
+      )
+      // messages for purged rows are shadowed by their tombstone.
+      if (!latest) {
+        latest = await latestMessageStore.get(
+          latestMessageKey({ ...msg, column }),
+        )
+        if (!latest?.purged) {
+          latest = undefined
+        }
+      }
+      if (latest && latest.timestamp > msg.timestamp) {
+        await cursor.update(compactedOf(msg.timestamp))
+        dropped++
+      }
+      cursor = await cursor.continue()
+    }
+    await t.done
+    return dropped
+  }
+
+  // Query the approximate sizes of the stores, by reading all their entries.
+  public async queryStoreSizes(): Promise<StoreSizes> {
+    const db = await this.#db
+    const names = [
+      this.#messageLogStoreName,
+      this.#latestMessageStoreName,
+      this.#messageMetaStoreName,
+    ]
+    const t = db.transaction(names)
+    const [message_log, message_latest, message_meta] = await Promise.all(
+      names.map(async name => {
+        let size = 0
+        let cursor = await t.objectStore(name).openCursor()
+        while (cursor) {
+          size += sizeOf(cursor.key) + sizeOf(cursor.value)
+          cursor = await cursor.continue()
+        }
+        return size
+      }),
+    )
+    await t.done
+    return { message_log, message_latest, message_meta }
   }
 
   public async set(key: string, value: string): Promise<void> {
-    await this.#db.put(this.#messageMetaStoreName, value, key)
+    const db = await this.#db
+    await db.put(this.#messageMetaStoreName, value, key)
+    if (key === kClock) {
+      this.#clock = value
+    }
+    if (key === kPurged) {
+      this.#purged = true
+    }
   }
 
   public async get(key: string): Promise<string | undefined> {
-    return await this.#db.get(this.#messageMetaStoreName, key)
+    const db = await this.#db
+    const value = await db.get(this.#messageMetaStoreName, key)
+    if (key === kClock) {
+      this.#clock = value
+    }
+    if (key === kPurged) {
+      this.#purged = value !== undefined
+    }
+    return value
   }
 }
@@ -0,0 +1,327 @@
+import { Clock, Timestamp } from '@daaku/kombat'
+import type { Message } from '@daaku/kombat'
+import type {
+  ChangeListener,
+  Changes,
+  Conflict,
+  ConflictListener,
+  MessageFilter,
+  MessagePolicy,
+} from './index.js'
+import type { Codecs } from './codec.js'
+
+// Parts shared by the Local implementations.
+
+// Meta key where SyncDB records the timestamp of the last successful sync.
+export const kLastSync = 'last_sync'
+
+// Meta key where SyncDB records its clock, including the merkle.
+export const kClock = 'clock'
+
+// Meta key set once deleted rows have been purged.
+export const kPurged = 'purged'
+
+// Column marking a row as deleted.
+export const kTombstone = 'tombstone'
+
+export function latestMessageKey(msg: Message): string {
+  return `${msg.dataset}:${msg.row}:${msg.column}`
+}
+
+// Purged rows keep their tombstone in the latest messages, marked as purged,
+// while the rest of their cells are dropped. Latest messages also note the
+// timestamp of the clock when they were received, used to detect conflicts.
+export type Latest = Message & { purged?: boolean; received?: string }
+
+// The message held by a latest message, without the fields noted with it.
+export const messageOf = ({ purged, received, ...msg }: Latest): Message => msg
+
+// Compacted messages leave behind their timestamp in the log, so storing them
+// again is recognized as a duplicate, the same as it would be had they been
+// kept, and they are not inserted into the merkle twice.
+export type Compacted = { timestamp: string; compacted: true }
+
+export const compactedOf = (timestamp: string): Compacted => ({
+  timestamp,
+  compacted: true,
+})
+
+export const isCompacted = (entry: Message | Compacted): entry is Compacted =>
+  'compacted' in entry
+
+// Stores on the same database, such as in other tabs, share the clock of the
+// replica, but must not make the same timestamps. Each one writes with the node
+// of the replica with its end replaced by its own, so the writes of every
+// Store are known to be the replica's.
+const storeNodeLength = 4
+
+// The end of the node a Store writes with.
+export const newStoreNode = () =>
+  new Clock().timestamp.nodeID.slice(-storeNodeLength)
+
+// The part of a node shared by the Stores of a replica.
+export const replicaNode = (node: string) => node.slice(0, -storeNodeLength)
+
+// The replica that wrote the message.
+export const nodeOf = (msg: Message) =>
+  replicaNode(Timestamp.fromJSON(msg.timestamp).nodeID)
+
+// The node of this replica, from the stored clock.
+export const clockNode = (clock: string | undefined) =>
+  clock && replicaNode(Timestamp.fromJSON(JSON.parse(clock).timestamp).nodeID)
+
+// The stored clock with a new node, keeping its time and merkle. A replica
+// imported in place of another one gets its own node, since the source may
+// keep writing, and timestamps made by both would collide.
+export const withNewNode = (clock: string): string => {
+  const data = JSON.parse(clock)
+  const { millis, counter } = Timestamp.fromJSON(data.timestamp)
+  const { nodeID } = new Clock().timestamp
+  data.timestamp = new Timestamp(millis, counter, nodeID).toJSON()
+  return JSON.stringify(data)
+}
+
+// The timestamp of the stored clock, which is after every message it has
+// sent or received.
+export const clockTimestamp = (clock: string | undefined): string | undefined =>
+  clock && JSON.parse(clock).timestamp
+
+// Check if a message and the latest message for its cell conflict, meaning the
+// writer of neither had seen the other. This is only known for writes made by
+// this replica, on the given node. A message from another replica conflicts
+// with a local one that is newer, since it was written without having seen the
+// local one, or that had not been synced yet. A local message conflicts with
+// one from another replica that had not been received when it was written.
+export function isConflict(
+  msg: Message,
+  latest: Latest,
+  node: string | undefined,
+  lastSync: string | undefined,
+): boolean {
+  if (latest.purged || node === undefined) {
+    return false
+  }
+  const local = nodeOf(msg) === node
+  if (local === (nodeOf(latest) === node)) {
+    return false
+  }
+  if (local) {
+    return latest.received !== undefined && latest.received > msg.timestamp
+  }
+  return (
+    msg.timestamp < latest.timestamp ||
+    lastSync === undefined ||
+    latest.timestamp >= lastSync
+  )
+}
+
+// Decode a message value using the codecs, if there are any.
+export const decodeWith = (codecs: Codecs | undefined, value: unknown) =>
+  codecs ? codecs.decode(value) : value
+
+// Consolidate the accepted messages into changes by dataset, then row id, with
+// their values decoded. Consolidating by row id is important because if we have
+// multiple changes to the same row we will not read changes made within the
+// transaction, there by causing only the last write to survive.
+export function changesOf(
+  messages: Message[],
+  policy: (msg: Message) => MessagePolicy,
+  codecs?: Codecs,
+): Changes {
+  const changes: Changes = {}
+  messages.map(msg => {
+    if (policy(msg) !== 'accept') {
+      return
+    }
+    let dataset = changes[msg.dataset]
+    if (!dataset) {
+      dataset = changes[msg.dataset] = {}
+    }
+    let row = dataset[msg.row]
+    if (!row) {
+      row = dataset[msg.row] = {}
+    }
+    row[msg.column] = decodeWith(codecs, msg.value)
+  })
+  return changes
+}
+
+// Load the latest messages into mem, with their values decoded. Purged rows are
+// left out, unless they were changed since.
+export function memFromLatest(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  mem: any,
+  messages: Latest[],
+  codecs?: Codecs,
+) {
+  const purged: [string, string][] = []
+  messages.forEach(msg => {
+    const { dataset, row, column, value } = msg
+    let d = mem[dataset]
+    if (!d) {
+      d = mem[dataset] = {}
+    }
+    let r = d[row]
+    if (!r) {
+      r = d[row] = { id: row }
+    }
+    r[column] = decodeWith(codecs, value)
+    if (msg.purged) {
+      purged.push([dataset, row])
+    }
+  })
+  purged.forEach(([dataset, row]) => {
+    if (
+      Object.keys(mem[dataset][row]).every(k => k === 'id' || k === kTombstone)
+    ) {
+      delete mem[dataset][row]
+    }
+  })
+}
+
+// Approximate size in bytes of a stored key or value, counting strings as
+// UTF-16 and binary data by its length.
+export function sizeOf(v: unknown): number {
+  if (typeof v === 'string') {
+    return v.length * 2
+  }
+  if (typeof v === 'number') {
+    return 8
+  }
+  if (typeof v === 'boolean') {
+    return 4
+  }
+  if (ArrayBuffer.isView(v) || v instanceof ArrayBuffer) {
+    return v.byteLength
+  }
+  if (typeof v === 'object' && v !== null) {
+    return Object.entries(v).reduce(
+      (size, [k, e]) => size + sizeOf(k) + sizeOf(e),
+      0,
+    )
+  }
+  return 0
+}
+
+// Policies decides how messages are handled using the message filter. The
+// policy of each message is remembered, since SyncDB hands the same messages
+// to applyChanges and then to storeMessages, and the filter need only run once.
+export class Policies {
+  #filter?: MessageFilter
+  #policies = new WeakMap<Message, MessagePolicy>()
+
+  // Check if a filter is set, without which all messages are accepted.
+  get filtered(): boolean {
+    return this.#filter !== undefined
+  }
+
+  setFilter(filter: MessageFilter) {
+    this.#filter = filter
+    this.#policies = new WeakMap()
+  }
+
+  of(msg: Message): MessagePolicy {
+    if (!this.#filter) {
+      return 'accept'
+    }
+    let policy = this.#policies.get(msg)
+    if (!policy) {
+      policy = this.#filter(msg)
+      this.#policies.set(msg, policy)
+    }
+    return policy
+  }
+}
+
+const watchKey = (dataset: string, row?: string, column?: string) =>
+  JSON.stringify([dataset, row, column])
+
+// Listeners holds the listeners of a Local, and notifies them.
+export class Listeners {
+  #changeListeners: ChangeListener[] = []
+  #storedListeners: { (messages: Message[]): void }[] = []
+  #conflictListeners: ConflictListener[] = []
+  #watchers = new Map<string, Set<ChangeListener>>()
+
+  listenChanges(cb: ChangeListener): () => void {
+    this.#changeListeners.push(cb)
+    return () => {
+      this.#changeListeners = this.#changeListeners.filter(e => e != cb)
+    }
+  }
+
+  listenStored(cb: (messages: Message[]) => void): () => void {
+    this.#storedListeners.push(cb)
+    return () => {
+      this.#storedListeners = this.#storedListeners.filter(e => e != cb)
+    }
+  }
+
+  listenConflicts(cb: ConflictListener): () => void {
+    this.#conflictListeners.push(cb)
+    return () => {
+      this.#conflictListeners = this.#conflictListeners.filter(e => e != cb)
+    }
+  }
+
+  // Conflicts are only worth detecting if someone is listening.
+  get detectConflicts(): boolean {
+    return this.#conflictListeners.length > 0
+  }
+
+  watch(
+    dataset: string,
+    row: string | undefined,
+    column: string | undefined,
+    cb: ChangeListener,
+  ): () => void {
+    const key = watchKey(dataset, row, column)
+    let watchers = this.#watchers.get(key)
+    if (!watchers) {
+      this.#watchers.set(key, (watchers = new Set()))
+    }
+    watchers.add(cb)
+    return () => {
+      watchers.delete(cb)
+      if (watchers.size === 0 && this.#watchers.get(key) === watchers) {
+        this.#watchers.delete(key)
+      }
+    }
+  }
+
+  changed(changes: Changes) {
+    this.#changeListeners.forEach(c => c(changes))
+    this.#notifyWatchers(changes)
+  }
+
+  stored(messages: Message[]) {
+    if (messages.length) {
+      this.#storedListeners.forEach(c => c(messages))
+    }
+  }
+
+  conflicted(conflicts: Conflict[]) {
+    if (conflicts.length) {
+      this.#conflictListeners.forEach(c => c(conflicts))
+    }
+  }
+
+  #notifyWatchers(changes: Changes) {
+    if (this.#watchers.size === 0) {
+      return
+    }
+    const notify = (key: string, scoped: Changes) =>
+      this.#watchers.get(key)?.forEach(c => c(scoped))
+    Object.entries(changes).forEach(([dataset, rows]) => {
+      notify(watchKey(dataset), { [dataset]: rows })
+      Object.entries(rows).forEach(([row, columns]) => {
+        notify(watchKey(dataset, row), { [dataset]: { [row]: columns } })
+        Object.entries(columns).forEach(([column, value]) =>
+          notify(watchKey(dataset, row, column), {
+            [dataset]: { [row]: { [column]: value } },
+          }),
+        )
+      })
+    })
+  }
+}
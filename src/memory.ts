@@ -0,0 +1,546 @@
+import { Clock, Timestamp } from '@daaku/kombat'
+import type { Message } from '@daaku/kombat'
+import type { Codecs } from './codec.js'
+import type {
+  ChangeListener,
+  Changes,
+  Conflict,
+  ConflictListener,
+  Encryption,
+  MessageFilter,
+  MessagePolicy,
+  Snapshot,
+  StoreLocal,
+  StoreSizes,
+} from './index.js'
+import {
+  changesOf,
+  clockNode,
+  clockTimestamp,
+  decodeWith,
+  isConflict,
+  kClock,
+  kLastSync,
+  kPurged,
+  kTombstone,
+  Latest,
+  latestMessageKey,
+  Listeners,
+  memFromLatest,
+  messageOf,
+  nodeOf,
+  Policies,
+  sizeOf,
+  withNewNode,
+} from './local.js'
+import {
+  readReplica,
+  replicaFormat,
+  replicaLine,
+  replicaVersion,
+} from './replica.js'
+
+// Persistence loads and saves snapshots of a LocalMemory, such as to a file.
+// Snapshots use the same format as exportReplica.
+export interface Persistence {
+  load(): Promise<string | undefined>
+  save(snapshot: string): Promise<void>
+}
+
+const byTimestamp = (m1: { timestamp: string }, m2: { timestamp: string }) =>
+  m1.timestamp.localeCompare(m2.timestamp)
+
+// LocalMemory holds the messages in memory, for tests and for environments
+// without IndexedDB, such as server side rendering. It behaves the same as
+// LocalIndexedDB, except that it can not be encrypted. Values are cloned going
+// in and out, as they would be by IndexedDB.
+export class LocalMemory implements StoreLocal {
+  readonly #log = new Map<string, Message>()
+  // timestamps of the messages dropped by compaction.
+  readonly #compacted = new Set<string>()
+  readonly #latest = new Map<string, Latest>()
+  readonly #quarantine = new Map<string, Message>()
+  readonly #meta = new Map<string, string>()
+  readonly #persistence?: Persistence
+  readonly #policies = new Policies()
+  #codecs?: Codecs
+  readonly #listeners = new Listeners()
+  #saving?: Promise<void>
+  #dirty = false
+
+  // Construct a LocalMemory instance. With persistence, a snapshot is saved
+  // after every change, but the saved one is only loaded by LocalMemory.new.
+  constructor(persistence?: Persistence) {
+    this.#persistence = persistence
+  }
+
+  // Create a LocalMemory, starting from the saved snapshot if there is one.
+  static async new(persistence?: Persistence): Promise<LocalMemory> {
+    const local = new LocalMemory(persistence)
+    const snapshot = await persistence?.load()
+    if (snapshot) {
+      // the snapshot is of this replica, so it keeps its node.
+      await local.#import(snapshot, true, true)
+    }
+    return local
+  }
+
+  // Wait for the snapshots being saved. Rejects if saving one failed.
+  async flush(): Promise<void> {
+    while (this.#saving) {
+      await this.#saving
+    }
+  }
+
+  // Save a snapshot, after the one being saved. Changes made meanwhile are
+  // included in a single later snapshot.
+  #save() {
+    const persistence = this.#persistence
+    if (!persistence) {
+      return
+    }
+    if (this.#saving) {
+      this.#dirty = true
+      return
+    }
+    this.#saving = (async () => {
+      try {
+        do {
+          this.#dirty = false
+          await persistence.save(this.#replicaLines().join(''))
+        } while (this.#dirty)
+      } finally {
+        this.#saving = undefined
+      }
+    })()
+    // failures are reported by flush.
+    this.#saving.catch(() => {})
+  }
+
+  #replicaLines(): string[] {
+    return [
+      replicaLine({ format: replicaFormat, version: replicaVersion }),
+      ...[...this.#meta].map(meta => replicaLine({ meta })),
+      ...[
+        ...[...this.#log.values()].map(message => ({
+          timestamp: message.timestamp,
+          line: replicaLine({ message }),
+        })),
+        ...[...this.#compacted].map(compacted => ({
+          timestamp: compacted,
+          line: replicaLine({ compacted }),
+        })),
+      ]
+        .sort(byTimestamp)
+        .map(({ line }) => line),
+    ]
+  }
+
+  public setMessageFilter(filter: MessageFilter): void {
+    this.#policies.setFilter(filter)
+  }
+
+  #policy(msg: Message): MessagePolicy {
+    return this.#policies.of(msg)
+  }
+
+  public setCodecs(codecs: Codecs): void {
+    this.#codecs = codecs
+  }
+
+  public listenChanges(cb: ChangeListener): () => void {
+    return this.#listeners.listenChanges(cb)
+  }
+
+  public notifyChanges(changes: Changes): void {
+    this.#listeners.changed(changes)
+  }
+
+  public listenStored(cb: (messages: Message[]) => void): () => void {
+    return this.#listeners.listenStored(cb)
+  }
+
+  public listenConflicts(cb: ConflictListener): () => void {
+    return this.#listeners.listenConflicts(cb)
+  }
+
+  public watch(dataset: string, cb: ChangeListener): () => void
+  public watch(dataset: string, row: string, cb: ChangeListener): () => void
+  public watch(
+    dataset: string,
+    row: string,
+    column: string,
+    cb: ChangeListener,
+  ): () => void
+  public watch(
+    dataset: string,
+    ...args: (string | ChangeListener)[]
+  ): () => void {
+    const cb = args.pop() as ChangeListener
+    const [row, column] = args as string[]
+    return this.#listeners.watch(dataset, row, column, cb)
+  }
+
+  // The tombstone of the row of the message, if the row was purged.
+  #purgedTombstone(msg: Message): Latest | undefined {
+    if (!this.#meta.has(kPurged)) {
+      return
+    }
+    const tombstone = this.#latest.get(
+      latestMessageKey({ ...msg, column: kTombstone }),
+    )
+    return tombstone?.purged ? tombstone : undefined
+  }
+
+  public async applyChanges(messages: Message[]): Promise<void> {
+    const changes = changesOf(messages, msg => this.#policy(msg), this.#codecs)
+    // purged rows stay deleted, as they do with LocalIndexedDB.
+    Object.entries(changes).forEach(([dataset, rows]) =>
+      Object.entries(rows).forEach(([row, columns]) => {
+        if (
+          !(kTombstone in columns) &&
+          this.#purgedTombstone({ timestamp: '', dataset, row, column: '' })
+        ) {
+          columns[kTombstone] = true
+        }
+      }),
+    )
+    this.#listeners.changed(changes)
+  }
+
+  public async storeMessages(messages: Message[]): Promise<boolean[]> {
+    const detectConflicts = this.#listeners.detectConflicts
+    const lastSync = this.#meta.get(kLastSync)
+    const clock = this.#meta.get(kClock)
+    const node = clockNode(clock)
+    const received = clockTimestamp(clock)
+    const conflicts: Conflict[] = []
+    const results = messages.map(msg => {
+      if (this.#log.has(msg.timestamp) || this.#compacted.has(msg.timestamp)) {
+        return false
+      }
+      const stored = structuredClone(msg)
+      this.#log.set(msg.timestamp, stored)
+
+      // messages that are not accepted never become the latest.
+      const policy = this.#policy(msg)
+      if (policy !== 'accept') {
+        if (policy === 'quarantine') {
+          this.#quarantine.set(msg.timestamp, stored)
+        }
+        return true
+      }
+
+      const key = latestMessageKey(msg)
+      const existing = this.#latest.get(key) ?? this.#purgedTombstone(msg)
+      if (!existing || existing.timestamp < msg.timestamp) {
+        this.#latest.set(key, received ? { ...stored, received } : stored)
+        if (
+          detectConflicts &&
+          existing &&
+          isConflict(msg, existing, node, lastSync)
+        ) {
+          conflicts.push({ winner: stored, loser: messageOf(existing) })
+        }
+      } else if (detectConflicts && isConflict(msg, existing, node, lastSync)) {
+        conflicts.push({ winner: messageOf(existing), loser: stored })
+      }
+      return true
+    })
+    const stored = messages.filter((_, i) => results[i])
+    if (stored.length) {
+      this.#save()
+    }
+    this.#listeners.stored(stored)
+    this.#listeners.conflicted(structuredClone(conflicts))
+    return results
+  }
+
+  public async queryMessages(since: string): Promise<Message[]> {
+    return structuredClone(
+      [...this.#log.values()]
+        .filter(msg => msg.timestamp >= since)
+        .sort(byTimestamp),
+    )
+  }
+
+  public async queryLatestMessages(
+    messages: Message[],
+  ): Promise<(Message | undefined)[]> {
+    return messages.map(msg => {
+      const latest = this.#latest.get(latestMessageKey(msg))
+      if (latest) {
+        return structuredClone(messageOf(latest))
+      }
+      // the tombstone of a purged row stands in for its purged cells.
+      const tombstone = this.#purgedTombstone(msg)
+      if (tombstone) {
+        return structuredClone(messageOf(tombstone))
+      }
+    })
+  }
+
+  public async queryHistory(
+    dataset: string,
+    row: string,
+    column?: string,
+  ): Promise<Message[]> {
+    return structuredClone(
+      [...this.#log.values()]
+        .filter(
+          msg =>
+            msg.dataset === dataset &&
+            msg.row === row &&
+            (column === undefined || msg.column === column),
+        )
+        .sort(byTimestamp),
+    )
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public async loadDatasets(mem: any, datasets?: string[]): Promise<void> {
+    memFromLatest(
+      mem,
+      structuredClone(
+        [...this.#latest.values()].filter(
+          msg => !datasets || datasets.includes(msg.dataset),
+        ),
+      ),
+      this.#codecs,
+    )
+  }
+
+  public async snapshotAt(
+    timestamp: string,
+    datasets?: string[],
+  ): Promise<Snapshot> {
+    const snapshot: Snapshot = {}
+    ;[...this.#log.values()]
+      .filter(
+        msg =>
+          msg.timestamp <= timestamp &&
+          (!datasets || datasets.includes(msg.dataset)),
+      )
+      .sort(byTimestamp)
+      .forEach(msg => {
+        if (this.#policy(msg) !== 'accept') {
+          return
+        }
+        const dataset = (snapshot[msg.dataset] ??= {})
+        const row = (dataset[msg.row] ??= { id: msg.row })
+        if (msg.value === undefined) {
+          delete row[msg.column]
+        } else {
+          row[msg.column] = decodeWith(this.#codecs, structuredClone(msg.value))
+        }
+      })
+    return snapshot
+  }
+
+  public exportReplica(): ReadableStream<string> {
+    const lines = this.#replicaLines()
+    return new ReadableStream<string>({
+      start: controller => {
+        lines.forEach(line => controller.enqueue(line))
+        controller.close()
+      },
+    })
+  }
+
+  // Import a replica created by exportReplica, the same as LocalIndexedDB does.
+  public importReplica(
+    input: ReadableStream<string> | string,
+    { replace = false }: { replace?: boolean } = {},
+  ): Promise<number> {
+    return this.#import(input, replace, false)
+  }
+
+  async #import(
+    input: ReadableStream<string> | string,
+    replace: boolean,
+    keepNode: boolean,
+  ): Promise<number> {
+    let clock: Clock | undefined
+    if (replace) {
+      this.#log.clear()
+      this.#compacted.clear()
+      this.#latest.clear()
+      this.#quarantine.clear()
+      this.#meta.clear()
+    } else {
+      const clockJSON = this.#meta.get(kClock)
+      clock = clockJSON ? Clock.fromJSON(JSON.parse(clockJSON)) : new Clock()
+    }
+
+    const messages: Message[] = []
+    for await (const entry of readReplica(input)) {
+      if ('meta' in entry) {
+        if (replace) {
+          const [key, value] = entry.meta
+          this.#meta.set(
+            key,
+            key === kClock && !keepNode ? withNewNode(value) : value,
+          )
+        }
+        continue
+      }
+      if ('compacted' in entry) {
+        if (replace) {
+          this.#compacted.add(entry.compacted)
+        }
+        continue
+      }
+      messages.push(entry.message)
+    }
+    messages.sort(byTimestamp)
+    const latest = await this.queryLatestMessages(messages)
+    await this.applyChanges(
+      messages.filter(
+        (msg, i) => !latest[i] || latest[i].timestamp < msg.timestamp,
+      ),
+    )
+    const inserted = await this.storeMessages(messages)
+    inserted.forEach((include, i) => {
+      if (include && clock) {
+        const ts = Timestamp.fromJSON(messages[i].timestamp)
+        clock.recv(ts)
+        clock.merkle.insert(ts)
+      }
+    })
+    if (clock) {
+      this.#meta.set(kClock, JSON.stringify(clock))
+    }
+    this.#save()
+    return inserted.filter(include => include).length
+  }
+
+  public async queryDatasets(): Promise<string[]> {
+    return [
+      ...new Set([...this.#latest.values()].map(msg => msg.dataset)),
+    ].sort()
+  }
+
+  public async queryUnsynced(): Promise<{ lastSync?: string; count: number }> {
+    const lastSync = this.#meta.get(kLastSync)
+    const node = clockNode(this.#meta.get(kClock))
+    let count = 0
+    this.#log.forEach(msg => {
+      if (
+        (lastSync === undefined || msg.timestamp >= lastSync) &&
+        nodeOf(msg) === node
+      ) {
+        count++
+      }
+    })
+    return { lastSync, count }
+  }
+
+  public async queryQuarantinedMessages(): Promise<Message[]> {
+    return structuredClone([...this.#quarantine.values()].sort(byTimestamp))
+  }
+
+  // Messages held in memory are never encrypted, so only removing the
+  // encryption is possible, and does nothing.
+  public async rotateKey(encryption?: Encryption): Promise<void> {
+    if (encryption) {
+      throw new Error('cannot encrypt messages held in memory')
+    }
+  }
+
+  public async purgeTombstones(
+    horizon: string,
+  ): Promise<{ dataset: string; row: string }[]> {
+    const lastSync = this.#meta.get(kLastSync)
+    if (!lastSync) {
+      return []
+    }
+    if (lastSync < horizon) {
+      horizon = lastSync
+    }
+    const deleted = [...this.#latest.values()].filter(
+      msg =>
+        msg.column === kTombstone &&
+        !msg.purged &&
+        msg.value === true &&
+        msg.timestamp < horizon,
+    )
+    if (deleted.length === 0) {
+      return []
+    }
+    this.#latest.forEach((cell, key) => {
+      if (
+        cell.column !== kTombstone &&
+        deleted.some(
+          msg => msg.dataset === cell.dataset && msg.row === cell.row,
+        )
+      ) {
+        this.#latest.delete(key)
+      }
+    })
+    deleted.forEach(msg =>
+      this.#latest.set(latestMessageKey(msg), { ...msg, purged: true }),
+    )
+    this.#meta.set(kPurged, 'true')
+    this.#save()
+    return deleted.map(({ dataset, row }) => ({ dataset, row }))
+  }
+
+  public async hasPurged(): Promise<boolean> {
+    return this.#meta.has(kPurged)
+  }
+
+  // Nothing else uses the messages held in memory, so they are never purged or
+  // replaced elsewhere.
+  public purgedElsewhere(): void {}
+  public replacedElsewhere(): void {}
+
+  public async compact(horizon: string): Promise<number> {
+    const lastSync = this.#meta.get(kLastSync)
+    if (!lastSync) {
+      return 0
+    }
+    if (lastSync < horizon) {
+      horizon = lastSync
+    }
+    let dropped = 0
+    this.#log.forEach((msg, timestamp) => {
+      if (msg.timestamp >= horizon) {
+        return
+      }
+      // messages for purged rows are shadowed by their tombstone.
+      const latest =
+        this.#latest.get(latestMessageKey(msg)) ?? this.#purgedTombstone(msg)
+      if (latest && latest.timestamp > msg.timestamp) {
+        this.#log.delete(timestamp)
+        this.#compacted.add(timestamp)
+        dropped++
+      }
+    })
+    if (dropped) {
+      this.#save()
+    }
+    return dropped
+  }
+
+  public async queryStoreSizes(): Promise<StoreSizes> {
+    const size = (entries: Map<string, unknown>) =>
+      [...entries].reduce((n, [k, v]) => n + sizeOf(k) + sizeOf(v), 0)
+    return {
+      message_log: [...this.#compacted].reduce(
+        (n, timestamp) => n + sizeOf(timestamp),
+        size(this.#log),
+      ),
+      message_latest: size(this.#latest),
+      message_meta: size(this.#meta),
+    }
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    this.#meta.set(key, value)
+    this.#save()
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    return this.#meta.get(key)
+  }
+}
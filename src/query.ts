@@ -0,0 +1,225 @@
+export type Primitive = string | number | boolean | bigint | Date
+
+// Operators available to compare a column against. Multiple operators on the
+// same column are combined with AND.
+export interface Operators {
+  eq?: Primitive
+  ne?: Primitive
+  gt?: Primitive
+  gte?: Primitive
+  lt?: Primitive
+  lte?: Primitive
+  in?: Primitive[]
+}
+
+// A bare value is shorthand for { eq: value }.
+export type Condition = Primitive | Operators
+
+// Query rows in a dataset. Conditions in where are combined with AND.
+export interface Query {
+  where?: { [column: string]: Condition }
+  orderBy?: string
+  desc?: boolean
+  limit?: number
+}
+
+// Indexes declared per dataset as a list of columns.
+export interface Indexes {
+  [dataset: string]: string[]
+}
+
+const isIndexable = (v: unknown): v is Primitive =>
+  typeof v === 'string' ||
+  typeof v === 'boolean' ||
+  typeof v === 'bigint' ||
+  (typeof v === 'number' && !Number.isNaN(v)) ||
+  (v instanceof Date && !Number.isNaN(v.getTime()))
+
+// Dates are compared by their time, so they have a type of their own.
+const typeOf = (v: unknown) => (v instanceof Date ? 'date' : typeof v)
+
+// Values of differing types are ordered by their type name, so a column with
+// mixed types still has a stable total order.
+export const compare = (a: unknown, b: unknown): number => {
+  const ta = typeOf(a)
+  const tb = typeOf(b)
+  if (ta !== tb) {
+    return ta < tb ? -1 : 1
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return compare(a.getTime(), b.getTime())
+  }
+  // @ts-expect-error same typed values are comparable
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+const equal = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b
+
+const toOperators = (c: Condition): Operators =>
+  typeof c === 'object' && !(c instanceof Date) ? c : { eq: c }
+
+// Check if a single value satisfies the condition. Range operators never match
+// values of a different type.
+const matches = (v: unknown, c: Condition): boolean => {
+  const ops = toOperators(c)
+  const cmp = (o: unknown) => (typeOf(o) === typeOf(v) ? compare(v, o) : NaN)
+  return (
+    (!('eq' in ops) || equal(v, ops.eq)) &&
+    (!('ne' in ops) || !equal(v, ops.ne)) &&
+    (!('gt' in ops) || cmp(ops.gt) > 0) &&
+    (!('gte' in ops) || cmp(ops.gte) >= 0) &&
+    (!('lt' in ops) || cmp(ops.lt) < 0) &&
+    (!('lte' in ops) || cmp(ops.lte) <= 0) &&
+    (!ops.in || ops.in.some(o => equal(v, o)))
+  )
+}
+
+export const matchesWhere = (
+  row: { [key: string]: unknown },
+  where: Query['where'] = {},
+): boolean =>
+  Object.entries(where).every(([column, c]) => matches(row[column], c))
+
+// ColumnIndex keeps the ids of the rows in a dataset ordered by the value of a
+// single column. Rows without an indexable value, as well as deleted rows, are
+// not part of the index.
+export class ColumnIndex {
+  readonly column: string
+  #entries: [Primitive, string][] = []
+  #values = new Map<string, Primitive>()
+
+  constructor(column: string) {
+    this.column = column
+  }
+
+  // Find the position of the first entry not less than the given value and id.
+  // An undefined id sorts before all ids, and null sorts after all ids.
+  #lowerBound(value: Primitive, id?: string | null): number {
+    let lo = 0
+    let hi = this.#entries.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      const [v, i] = this.#entries[mid]
+      let c = compare(v, value)
+      if (c === 0) {
+        c = id === undefined ? 1 : id === null ? -1 : compare(i, id)
+      }
+      if (c < 0) {
+        lo = mid + 1
+      } else {
+        hi = mid
+      }
+    }
+    return lo
+  }
+
+  // Update the index to reflect the current state of the row.
+  update(id: string, row?: { [key: string]: unknown }) {
+    const prev = this.#values.get(id)
+    if (prev !== undefined) {
+      this.#entries.splice(this.#lowerBound(prev, id), 1)
+      this.#values.delete(id)
+    }
+    const value = row?.tombstone ? undefined : row?.[this.column]
+    if (isIndexable(value)) {
+      this.#entries.splice(this.#lowerBound(value, id), 0, [value, id])
+      this.#values.set(id, value)
+    }
+  }
+
+  // Check if the condition can be served by a range lookup on the index.
+  static usable(c: Condition): boolean {
+    const ops = toOperators(c)
+    return ['eq', 'gt', 'gte', 'lt', 'lte', 'in'].some(op => op in ops)
+  }
+
+  // Returns the row ids matching the condition, ordered by value. Without a
+  // condition all ids in the index are returned.
+  ids(c?: Condition): string[] {
+    if (c === undefined) {
+      return this.#entries.map(([, id]) => id)
+    }
+    const ops = toOperators(c)
+    if (ops.in) {
+      const values = [...ops.in]
+        .sort(compare)
+        .filter((v, i, sorted) => i === 0 || compare(sorted[i - 1], v) !== 0)
+      return values.flatMap(v => this.ids({ ...ops, in: undefined, eq: v }))
+    }
+    let start = 0
+    let end = this.#entries.length
+    if ('eq' in ops) {
+      start = this.#lowerBound(ops.eq!)
+      end = this.#lowerBound(ops.eq!, null)
+    }
+    if ('gt' in ops) {
+      start = Math.max(start, this.#lowerBound(ops.gt!, null))
+    }
+    if ('gte' in ops) {
+      start = Math.max(start, this.#lowerBound(ops.gte!))
+    }
+    if ('lt' in ops) {
+      end = Math.min(end, this.#lowerBound(ops.lt!))
+    }
+    if ('lte' in ops) {
+      end = Math.min(end, this.#lowerBound(ops.lte!, null))
+    }
+    return this.#entries.slice(start, end).map(([, id]) => id)
+  }
+}
+
+// Run the query against the rows in a dataset, using the indexes where
+// possible. Returns the matching row ids in order.
+export const runQuery = (
+  rows: { [id: string]: any } = {},
+  indexes: { [column: string]: ColumnIndex } = {},
+  q: Query,
+): string[] => {
+  const where = q.where ?? {}
+  const driver = Object.keys(where).find(
+    column => indexes[column] && ColumnIndex.usable(where[column]),
+  )
+  const orderIndex = q.orderBy ? indexes[q.orderBy] : undefined
+
+  let ids: string[]
+  let ordered = false
+  if (driver) {
+    ids = indexes[driver].ids(where[driver])
+    ordered = driver === q.orderBy
+  } else if (orderIndex) {
+    // rows missing the orderBy column are not in the index, so they are
+    // appended after the ordered ones.
+    const inIndex = orderIndex.ids()
+    const seen = new Set(inIndex)
+    ids = [...inIndex, ...Object.keys(rows).filter(id => !seen.has(id))]
+    ordered = true
+  } else {
+    ids = Object.keys(rows)
+  }
+
+  ids = ids.filter(id => {
+    const row = rows[id]
+    return row && !row.tombstone && matchesWhere(row, where)
+  })
+
+  if (q.orderBy && !ordered) {
+    const column = q.orderBy
+    ids.sort((a, b) => {
+      const va = rows[a][column]
+      const vb = rows[b][column]
+      // undefined values always go last
+      if (va === undefined || vb === undefined) {
+        return va === vb ? 0 : va === undefined ? 1 : -1
+      }
+      return compare(va, vb) || compare(a, b)
+    })
+  }
+  if (q.desc) {
+    ids.reverse()
+  }
+  if (q.limit !== undefined) {
+    ids = ids.slice(0, q.limit)
+  }
+  return ids
+}
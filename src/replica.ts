@@ -0,0 +1,78 @@
+import type { Message } from '@daaku/kombat'
+
+// Replicas are exported as NDJSON. The first line is the header, followed by a
+// line per meta entry, followed by a line per message in timestamp order.
+// Messages dropped by compaction are exported as just their timestamp, so the
+// imported replica still recognizes them. Version 1 replicas lack these.
+export const replicaFormat = 'kombat-indexed-db-replica'
+export const replicaVersion = 2
+
+// Number of messages read or written at a time when exporting or importing.
+export const replicaPageSize = 500
+
+export type ReplicaEntry =
+  | { format: string; version: number }
+  | { meta: [string, string] }
+  | { message: Message }
+  | { compacted: string }
+
+export const replicaLine = (entry: ReplicaEntry) => JSON.stringify(entry) + '\n'
+
+async function* lines(input: ReadableStream<string> | string) {
+  if (typeof input === 'string') {
+    yield* input.split('\n')
+    return
+  }
+  const reader = input.getReader()
+  let buf = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    buf += value
+    const parts = buf.split('\n')
+    buf = parts.pop()!
+    yield* parts
+  }
+  yield buf
+}
+
+// Read the entries in an exported replica, after validating the header.
+export async function* readReplica(
+  input: ReadableStream<string> | string,
+): AsyncGenerator<
+  { meta: [string, string] } | { message: Message } | { compacted: string },
+  void,
+  undefined
+> {
+  let header = true
+  for await (const line of lines(input)) {
+    if (!line.trim()) {
+      continue
+    }
+    const entry = JSON.parse(line)
+    if (header) {
+      if (entry.format !== replicaFormat) {
+        throw new Error(`unknown replica format "${entry.format}"`)
+      }
+      if (
+        !Number.isInteger(entry.version) ||
+        entry.version < 1 ||
+        entry.version > replicaVersion
+      ) {
+        throw new Error(`unsupported replica version "${entry.version}"`)
+      }
+      header = false
+      continue
+    }
+    if ('meta' in entry || 'message' in entry || 'compacted' in entry) {
+      yield entry
+      continue
+    }
+    throw new Error(`unexpected replica entry "${line}"`)
+  }
+  if (header) {
+    throw new Error('missing replica header')
+  }
+}
@@ -0,0 +1,178 @@
+// Options for syncing in the background. Times are in milliseconds.
+export interface SyncOpts {
+  // Sync periodically at this interval. Defaults to 30 seconds, and 0 disables
+  // it.
+  readonly interval?: number
+  // Sync after local writes, once no more writes have been made for this long.
+  // Defaults to 1 second.
+  readonly debounce?: number
+  // Sync when the browser comes back online. Defaults to true.
+  readonly online?: boolean
+  // Sync when the page becomes visible. Defaults to true.
+  readonly visibility?: boolean
+  // Delay before retrying a failed sync, doubled for each consecutive failure
+  // up to the maximum. Defaults to 1 second, up to 5 minutes.
+  readonly backoff?: number
+  readonly maxBackoff?: number
+}
+
+const defaults: Required<SyncOpts> = {
+  interval: 30000,
+  debounce: 1000,
+  online: true,
+  visibility: true,
+  backoff: 1000,
+  maxBackoff: 300000,
+}
+
+// Delay before trying again after the given number of consecutive failures,
+// doubled for each failure up to the maximum, with jitter so many clients
+// failing together do not retry together.
+export const backoffDelay = (failures: number, opts: SyncOpts = {}) => {
+  const { backoff, maxBackoff } = { ...defaults, ...opts }
+  const delay = Math.min(maxBackoff, backoff * 2 ** (failures - 1))
+  return delay / 2 + (Math.random() * delay) / 2
+}
+
+// SyncScheduler decides when to sync. Only one sync runs at a time, and a sync
+// requested while one is running follows it. Failed syncs are retried with
+// exponential backoff.
+export class SyncScheduler {
+  readonly #sync: () => Promise<void>
+  readonly #opts: Required<SyncOpts>
+  #timer?: ReturnType<typeof setTimeout>
+  #running?: Promise<void>
+  #again = false
+  // the scheduled sync is the result of local writes.
+  #written = false
+  #failures = 0
+  #paused = true
+  #listening = false
+
+  constructor(sync: () => Promise<void>, opts: SyncOpts = {}) {
+    this.#sync = sync
+    this.#opts = { ...defaults, ...opts }
+  }
+
+  get paused(): boolean {
+    return this.#paused
+  }
+
+  readonly #onOnline = () => {
+    this.sync()
+  }
+
+  readonly #onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      this.sync()
+    }
+  }
+
+  // Start listening to events, and sync now.
+  start(): Promise<void> {
+    if (!this.#listening && typeof addEventListener === 'function') {
+      this.#listening = true
+      if (this.#opts.online) {
+        addEventListener('online', this.#onOnline)
+      }
+      if (this.#opts.visibility && typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', this.#onVisibilityChange)
+      }
+    }
+    return this.resume()
+  }
+
+  // Stop listening to events, and stop syncing. A sync that is already running
+  // is allowed to finish.
+  stop() {
+    if (this.#listening) {
+      this.#listening = false
+      removeEventListener('online', this.#onOnline)
+      if (typeof document !== 'undefined') {
+        document.removeEventListener(
+          'visibilitychange',
+          this.#onVisibilityChange,
+        )
+      }
+    }
+    this.pause()
+  }
+
+  pause() {
+    this.#paused = true
+    this.#written = false
+    clearTimeout(this.#timer)
+  }
+
+  // Resume syncing, starting with a sync now.
+  resume(): Promise<void> {
+    this.#paused = false
+    return this.sync()
+  }
+
+  // Schedule a sync after local writes. While retrying after a failure, the
+  // retry already scheduled is kept.
+  written() {
+    if (this.#paused || this.#failures > 0) {
+      return
+    }
+    this.#written = true
+    this.#schedule(this.#opts.debounce)
+  }
+
+  // Sync now, unless paused.
+  sync(): Promise<void> {
+    if (this.#running) {
+      this.#again = true
+      return this.#running
+    }
+    if (this.#paused) {
+      return Promise.resolve()
+    }
+    clearTimeout(this.#timer)
+    this.#written = false
+    const running = (this.#running = this.#run().finally(() => {
+      this.#running = undefined
+      if (this.#again) {
+        this.#again = false
+        if (this.#failures === 0) {
+          this.sync()
+        }
+      }
+    }))
+    return running
+  }
+
+  // Wait for the running sync, and the one scheduled after local writes.
+  async settle(): Promise<void> {
+    if (this.#written) {
+      this.sync()
+    }
+    while (this.#running) {
+      await this.#running
+    }
+  }
+
+  async #run() {
+    try {
+      await this.#sync()
+      this.#failures = 0
+      // a sync after local writes made meanwhile is already scheduled.
+      if (this.#opts.interval && !this.#written) {
+        this.#schedule(this.#opts.interval)
+      }
+    } catch {
+      this.#failures++
+      this.#written = false
+      this.#schedule(backoffDelay(this.#failures, this.#opts))
+    }
+  }
+
+  #schedule(delay: number) {
+    if (this.#paused) {
+      return
+    }
+    clearTimeout(this.#timer)
+    this.#timer = setTimeout(() => this.sync(), delay)
+  }
+}
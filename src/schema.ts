@@ -0,0 +1,100 @@
+import type { Codecs } from './codec.js'
+
+// Schema for a single column. Nested columns are named by their path, for
+// example "address.city".
+export interface ColumnSchema {
+  // Values the codecs encode have the tag of their codec as their type.
+  readonly type?:
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'array'
+    | 'date'
+    | 'bigint'
+    | 'bytes'
+    | (string & {})
+  // Required columns must be present when a row is written, and can not be
+  // deleted.
+  readonly required?: boolean
+  // Used when the column is missing from a row being written.
+  readonly default?: unknown
+}
+
+export interface DatasetSchema {
+  readonly columns: { readonly [column: string]: ColumnSchema }
+  // Reject columns that are not declared in the schema.
+  readonly strict?: boolean
+}
+
+// Schemas are declared per dataset. Datasets without a schema accept anything.
+export interface Schema {
+  readonly [dataset: string]: DatasetSchema
+}
+
+// Columns managed internally which are always allowed.
+const internalColumns = ['id', 'tombstone']
+
+const typeOf = (v: unknown, codecs?: Codecs) =>
+  codecs?.tagOf(v) ?? (Array.isArray(v) ? 'array' : typeof v)
+
+// Validate a single column value, throwing a TypeError if it is invalid. The
+// value is validated as it is decoded, typed by the given codecs.
+export const validateColumn = (
+  schema: Schema | undefined,
+  dataset: string,
+  row: string,
+  column: string,
+  value: unknown,
+  codecs?: Codecs,
+) => {
+  const ds = schema?.[dataset]
+  if (!ds || internalColumns.includes(column)) {
+    return
+  }
+  const col = ds.columns[column]
+  const where = `in dataset "${dataset}" with row id "${row}" and column "${column}"`
+  if (!col) {
+    if (ds.strict) {
+      throw new TypeError(`unknown column ${where}`)
+    }
+    return
+  }
+  if (value === undefined || value === null) {
+    if (col.required) {
+      throw new TypeError(`missing required value ${where}`)
+    }
+    return
+  }
+  const type = typeOf(value, codecs)
+  if (col.type && type !== col.type) {
+    throw new TypeError(
+      `expected value of type "${col.type}" but got "${type}" ${where}`,
+    )
+  }
+}
+
+// Apply defaults to a flattened row, and validate it as a whole. The row is
+// modified in place.
+export const validateRow = (
+  schema: Schema | undefined,
+  dataset: string,
+  id: string,
+  row: Record<string, unknown>,
+  codecs?: Codecs,
+) => {
+  const ds = schema?.[dataset]
+  if (!ds) {
+    return
+  }
+  Object.entries(ds.columns).forEach(([column, col]) => {
+    if (row[column] === undefined && 'default' in col) {
+      row[column] = structuredClone(col.default)
+    }
+    if (col.required && row[column] === undefined) {
+      validateColumn(schema, dataset, id, column, undefined, codecs)
+    }
+  })
+  Object.entries(row).forEach(([column, value]) =>
+    validateColumn(schema, dataset, id, column, value, codecs),
+  )
+}
@@ -1,18 +1,279 @@
-import { Remote, SyncDB } from '@daaku/kombat'
+import { Message, Remote, SyncDB, Timestamp } from '@daaku/kombat'
 import {
   ChangeListener,
-  loadDatasetMem,
+  Changes,
+  Codec,
+  Codecs,
+  Encryption,
   LocalIndexedDB,
+  MessagePolicy,
+  Snapshot,
+  StoreLocal,
+  StoreSizes,
+  syncDatasetIndexedDB,
   syncDatasetMem,
+  Watch,
+  WatchArgs,
 } from './index.js'
+import { ColumnIndex, Indexes, Query, runQuery } from './query.js'
+import { Schema, validateColumn, validateRow } from './schema.js'
+import { readReplica, replicaPageSize } from './replica.js'
+import { backoffDelay, SyncOpts, SyncScheduler } from './scheduler.js'
+import { SyncLocal } from './sync.js'
+import { UndoManager } from './undo.js'
 import { dequal } from 'dequal'
-import { IDBPDatabase, openDB } from 'idb'
+import { IDBPDatabase, IDBPTransaction, openDB, OpenDBCallbacks } from 'idb'
+
+export type {
+  Condition,
+  Indexes,
+  Operators,
+  Primitive,
+  Query,
+} from './query.js'
+export type { ColumnSchema, DatasetSchema, Schema } from './schema.js'
+export type { Codec, Encryption, StoreLocal, StoreSizes } from './index.js'
+export { defaultCodecs } from './index.js'
+export type { SyncOpts } from './scheduler.js'
 
 export interface Opts {
   readonly dbName: string
   readonly remote: Remote
+  // Columns to index per dataset, used to serve queries without scanning.
+  readonly indexes?: Indexes
+  // Schema per dataset. Local writes that violate it throw, and incoming
+  // messages that violate it are handled per onInvalid.
+  readonly schema?: Schema
+  // Decide how to handle an invalid incoming message. Defaults to dropping it.
+  readonly onInvalid?: (msg: Message, err: Error) => MessagePolicy
+  // Decide how to handle a local write that failed to be applied and stored,
+  // such as when the storage quota is exceeded. Defaults to rolling it back.
+  // Failures to sync with the Remote are not write failures, and are reported
+  // in the status instead.
+  readonly onError?: (
+    err: Error,
+    messages: Message[],
+  ) => WriteErrorPolicy | Promise<WriteErrorPolicy>
+  // Maximum number of local write groups kept for undo. Defaults to 100.
+  readonly undoLimit?: number
+  // Broadcast changes to other Stores on the same database, such as in other
+  // tabs, keeping them live. Defaults to true where BroadcastChannel exists,
+  // unless a custom Local is used.
+  readonly broadcast?: boolean
+  // Datasets to load at startup. When given, other datasets are loaded on
+  // demand the first time they are accessed, or explicitly using load. Writes
+  // to a dataset throw until it is loaded, since they depend on the rows they
+  // change. By default all datasets are loaded at startup.
+  readonly datasets?: string[]
+  // Maintain an object store per dataset holding the current rows, keyed by
+  // id, so other code such as a service worker can read rows straight from
+  // IndexedDB. Stores are named by the prefix followed by the dataset name, and
+  // new ones are created by bumping the database version. All Stores on the
+  // same database should use the same option. The rows are stored as is, so
+  // this can not be used with encryption.
+  readonly materialize?: { readonly prefix?: string }
+  // Encrypt the stored messages at rest. All Stores on the same database must
+  // use the same encryption, which can be changed using rotateKey.
+  readonly encryption?: Encryption
+  // Sync with the Remote in the background, periodically, when coming back
+  // online or becoming visible, and after local writes. Failures are retried
+  // with backoff. By default only the initial sync and the syncs after local
+  // writes happen, without retries.
+  readonly sync?: SyncOpts
+  // Create the Local holding the messages, instead of storing them in the
+  // IndexedDB database, such as a LocalMemory for tests or server side
+  // rendering. The database name is then unused, and rows can not be
+  // materialized. Encryption is up to the Local.
+  readonly local?: () => StoreLocal | Promise<StoreLocal>
+  // Migrations to apply, in order of version.
+  readonly migrations?: Migration[]
+  // Keep the data in a namespace of the database, apart from the other
+  // namespaces, so several Stores can be hosted in one database, each synced
+  // with its own Remote. The object stores of a namespace, including the
+  // materialized row stores, are prefixed by its name followed by a colon, so
+  // the name can not contain a colon. By default the data is not namespaced.
+  readonly namespace?: string
+  // React to the storage running out, before writes start failing. The usage
+  // is checked at startup and after messages are stored, where the browser can
+  // estimate it. By default nothing is checked.
+  readonly quota?: QuotaOpts
+  // Codecs for values that JSON can not represent, so they round trip through
+  // the Remote and other replicas. Values are encoded when they are written,
+  // and decoded when they are applied or loaded. All replicas should use the
+  // same codecs. Defaults to defaultCodecs, for Date, BigInt and Uint8Array
+  // values.
+  readonly codecs?: readonly Codec[]
+  // Store plain objects as a column per leaf, named by the path to the leaf,
+  // so nested values can be changed and merged one at a time. Property names
+  // can then not contain a ".", and stored columns containing one are read as
+  // nested. By default plain objects are stored whole like arrays, since data
+  // written without this option may use such column names.
+  readonly nested?: boolean
+}
+
+export interface QuotaOpts {
+  // Fraction of the quota in use at which to react. Defaults to 0.9.
+  readonly threshold?: number
+  // How to react. Defaults to compacting the message log.
+  readonly policy?: QuotaPolicy
+  // Minimum time between the checks made by rejected writes, in milliseconds.
+  // Defaults to 1 second.
+  readonly recheckInterval?: number
+}
+
+// How running out of storage is handled, once the usage reaches the threshold
+// or a write fails for exceeding the quota. Compacting drops the messages in
+// the log that are synced and shadowed by newer ones. Rejecting makes local
+// writes throw, before anything is changed, until the usage falls below the
+// threshold again, which the rejected writes check for. Ignoring only emits
+// the event.
+export type QuotaPolicy = 'compact' | 'reject' | 'ignore'
+
+// The storage used by the Store.
+export interface StorageUsage {
+  // Bytes used and available for the origin, as estimated by the browser, if
+  // it can estimate them.
+  readonly usage?: number
+  readonly quota?: number
+  // Approximate bytes used by the internal stores of the Store.
+  readonly stores: StoreSizes
+}
+
+// Migration evolves the database schema and the data. Each one is applied once
+// per replica, when a Store is opened. The applied versions are recorded in
+// the database, apart from the IndexedDB version, which Stores bump on their
+// own.
+export interface Migration {
+  // Versions are positive integers, increasing with each migration.
+  readonly version: number
+  // Change the IndexedDB schema, such as to add object stores for the app. It
+  // is called within the upgrade transaction, but not with a custom Local.
+  readonly upgrade?: (
+    db: IDBPDatabase,
+    tx: IDBPTransaction<unknown, string[], 'versionchange'>,
+  ) => void
+  // Generate messages that migrate the data, such as to rename a column by
+  // copying its values and clearing it. It is given the rows of all datasets,
+  // including deleted rows with their tombstone, as migrated by the preceding
+  // migrations. Cleared cells are left out of the rows. The messages are sent
+  // like local writes, so replicas still on older versions of the app receive
+  // them as ordinary writes. Since every replica also runs the migration on its
+  // own, the messages must only depend on the rows, so the replicas converge. A
+  // sync is attempted first, so the rows include those already migrated by
+  // other replicas, and messages that would not change a cell are not sent.
+  // Rows written later by older versions of the app are not migrated.
+  readonly data?: (rows: Snapshot) => Omit<Message, 'timestamp'>[]
+}
+
+// How a failed local write is handled. Retrying sends the messages again,
+// after a delay that backs off like failed syncs do, and gives up by rolling
+// back after maxWriteAttempts attempts. Rolling back restores the cells to
+// their previous values in memory, unless they have been changed since, and
+// notifies listeners. Ignoring keeps the in-memory values, even though they
+// were not stored.
+export type WriteErrorPolicy = 'retry' | 'rollback' | 'ignore'
+
+// The number of attempts made to send a local write before giving up.
+export const maxWriteAttempts = 5
+
+// Events emitted by the Store.
+//
+// blocking: another tab wants to upgrade the database, so this Store was
+// closed. Further writes will throw. Stores that materialize rows or use a
+// namespace reconnect instead, since they upgrade the database as datasets and
+// namespaces appear.
+//
+// terminated: the browser closed the database abnormally. Further writes will
+// throw.
+//
+// closed: the Store was closed.
+//
+// deleted: the namespace, or the whole database, was deleted by another
+// connection while reconnecting. The Store shut down instead of creating it
+// again, and further writes will throw.
+//
+// replaced: the data was replaced by importReplica, in this Store or in
+// another one on the same database. The undo history is cleared, and the data
+// should be read again.
+//
+// loaded: a dataset that is loaded on demand finished loading.
+//
+// loadfailed: loading a dataset on demand failed. Writes to it keep throwing
+// until load is called again and succeeds.
+//
+// error: a local write failed, and was handled according to the policy.
+//
+// quotaexceeded: the storage usage reached the threshold of the quota option,
+// or a write failed for exceeding the quota, and the policy was applied. It is
+// emitted again only once the usage has fallen below the threshold.
+//
+// conflict: a cell was written concurrently by this replica and another one,
+// and the loser did not become its value. This is reported on the replica that
+// made the local write.
+export type StoreEvent =
+  | { type: 'blocking' }
+  | { type: 'terminated' }
+  | { type: 'closed' }
+  | { type: 'replaced' }
+  | { type: 'deleted' }
+  | { type: 'loaded'; dataset: string }
+  | { type: 'loadfailed'; dataset: string; error: Error }
+  | {
+      type: 'error'
+      error: Error
+      messages: Message[]
+      policy: WriteErrorPolicy
+    }
+  | { type: 'conflict'; winner: HistoryEntry; loser: HistoryEntry }
+  | {
+      type: 'quotaexceeded'
+      usage?: number
+      quota?: number
+      policy: QuotaPolicy
+    }
+
+// The status of syncing with the Remote, for showing indicators such as
+// "saving", "offline" or "synced 2 minutes ago".
+export interface SyncStatus {
+  // Local writes that are still being applied and stored.
+  readonly pending: number
+  // A sync with the Remote is in flight.
+  readonly syncing: boolean
+  // Time of the last successful sync, in milliseconds since the epoch.
+  readonly lastSync?: number
+  // Error from the last failed sync or write, cleared by a successful sync.
+  readonly lastError?: Error
+  // Stored messages the next sync sends to the Remote.
+  readonly unsynced: number
+}
+
+// A message in the history of a cell, with its value decoded and the id of the
+// node that wrote it parsed from its timestamp.
+export interface HistoryEntry extends Message {
+  readonly nodeID: string
+}
+
+const historyEntry = (codecs: Codecs, msg: Message): HistoryEntry => ({
+  ...msg,
+  value: codecs.decode(msg.value),
+  nodeID: Timestamp.fromJSON(msg.timestamp).nodeID,
+})
+
+// A result of a live query, with the ids of the rows that were added, removed
+// or updated since the previous result. The first result has all rows added.
+export interface LiveResult<Row> {
+  readonly rows: Row[]
+  readonly ids: string[]
+  readonly added: string[]
+  readonly removed: string[]
+  readonly updated: string[]
 }
 
+// The row type for a dataset in the DB.
+export type RowOf<Dataset> = Dataset extends { [id: string]: infer R }
+  ? R
+  : never
+
 // Store provides the DB, that proxy to your various datasets.
 export interface Store<DB extends object> {
   // Your datasets, containing the the rows of data.
@@ -21,6 +282,125 @@ export interface Store<DB extends object> {
   // Listen to changes on the data.
   listenChanges(cb: ChangeListener): () => void
 
+  // Listen to events about the Store. Returned function can be called to
+  // unsubscribe.
+  listenEvents(cb: (event: StoreEvent) => void): () => void
+
+  // Watch changes scoped to a dataset, row or column. Only affected listeners
+  // are called, with the relevant subset of the changes.
+  watch: Watch
+
+  // The current sync status. The same object is returned until it changes, so
+  // it can be compared by reference.
+  readonly status: SyncStatus
+
+  // Listen to changes of the sync status. The listener is not called with the
+  // current status. Returned function can be called to unsubscribe.
+  listenStatus(cb: (status: SyncStatus) => void): () => void
+
+  // Query rows in a dataset, using the declared indexes where possible.
+  query<K extends keyof DB>(dataset: K, q?: Query): RowOf<DB[K]>[]
+
+  // Run a query now and again whenever applied changes affect its result, which
+  // is when rows enter or leave it, or rows in it change. The callback is called
+  // with the current result immediately. Returned function can be called to
+  // unsubscribe.
+  live<K extends keyof DB>(
+    dataset: K,
+    q: Query,
+    cb: (result: LiveResult<RowOf<DB[K]>>) => void,
+  ): () => void
+
+  // Load a dataset if it is loaded on demand. The returned promise resolves
+  // once it is loaded, which happens only once. If loading fails, the promise
+  // rejects and it is tried again by the next call.
+  load(dataset: keyof DB & string): Promise<void>
+
+  // Check if a dataset has been loaded.
+  isLoaded(dataset: keyof DB & string): boolean
+
+  // Batch collects all writes made within the callback, and sends them
+  // together. They are applied and persisted atomically, and listeners see them
+  // as a single change. If the callback throws, none of the writes are sent and
+  // the in-memory data is restored.
+  batch(fn: (db: DB) => void): void
+
+  // Undo the last group of local writes, by sending compensating messages.
+  // Cells changed since by another replica are left alone. Each write, or each
+  // batch, is a single group. Returns false if there was nothing to undo.
+  undo(): boolean
+
+  // Redo the last undone group of local writes. Returns false if there was
+  // nothing to redo.
+  redo(): boolean
+
+  // Check if there is something to undo or redo.
+  readonly canUndo: boolean
+  readonly canRedo: boolean
+
+  // Restore a deleted row by clearing its tombstone. Rows that have been
+  // purged only get back the columns written since they were purged. Rows that
+  // are not deleted, or never existed, are left alone. Rows held in memory are
+  // restored immediately, while purged rows are looked up first.
+  restore(dataset: keyof DB & string, id: string): Promise<void>
+
+  // Purge rows deleted before the horizon, in milliseconds since the epoch,
+  // from memory and from the latest values. The horizon is clamped to the last
+  // sync, since later messages may still change the rows. Messages for purged
+  // rows that arrive late are honored, without bringing them back. Returns the
+  // number of purged rows.
+  purgeTombstones(horizon: number): Promise<number>
+
+  // Pause and resume syncing in the background, if it was enabled using the
+  // sync option. Resuming syncs immediately.
+  pause(): void
+  resume(): Promise<void>
+
+  // Incoming messages that were quarantined for violating the schema.
+  quarantined(): Promise<Message[]>
+
+  // Export the replica as a stream of NDJSON lines, for backups or for moving
+  // the data to another browser without the Remote. The messages are exported
+  // decrypted, so exporting an encrypted Store requires the plaintext option
+  // to be set, and the stream errors otherwise.
+  exportReplica(opts?: { plaintext?: boolean }): ReadableStream<string>
+
+  // Import a replica created by exportReplica. By default the messages are
+  // merged into the existing data, as if they were received from the Remote.
+  // When replacing, the existing data is discarded in favor of the replica,
+  // which gets a new node. Syncing is paused and writes throw until it is done.
+  importReplica(
+    input: ReadableStream<string> | string,
+    opts?: { replace?: boolean },
+  ): Promise<void>
+
+  // Encrypt the stored messages using a new encryption, or store them in
+  // plaintext if none is given. Other Stores on the same database must be
+  // closed, and opened again using the new encryption.
+  rotateKey(encryption?: Encryption): Promise<void>
+
+  // The messages recorded for a cell, or for every cell in a row if no column
+  // is given, in timestamp order. Nested columns are named by their path.
+  history(
+    dataset: keyof DB & string,
+    id: string,
+    column?: string,
+  ): Promise<HistoryEntry[]>
+
+  // Materialize the rows as they were at the given timestamp, optionally
+  // limited to some datasets.
+  snapshotAt(timestamp: string, datasets?: (keyof DB)[]): Promise<Snapshot>
+
+  // The storage used by the Store. Reading the sizes of the internal stores
+  // goes through all their entries. This only reads the usage, and never
+  // applies the quota policy.
+  storageUsage(): Promise<StorageUsage>
+
+  // Ask the browser to keep the data even under storage pressure, instead of
+  // evicting it. Resolves to whether the data is persisted, which is false
+  // where the browser does not support it.
+  requestPersistence(): Promise<boolean>
+
   // Settle ensures all background async writes have submitted to the underlying
   // SyncDB. This is important because the proxy provides a synchronous API on
   // what is underneath an asynchronous API.
@@ -38,6 +418,187 @@ const isPrimitive = (v: unknown) => {
   return typeof v !== 'function'
 }
 
+// With the nested option, plain objects are stored as a column per leaf, named
+// by the path to the leaf joined with this separator. Arrays and other values
+// are stored whole.
+const pathSep = '.'
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => {
+  if (typeof v !== 'object' || v === null) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(v)
+  return proto === Object.prototype || proto === null
+}
+
+// Check if the column is the parent column or nested within it.
+const isWithin = (nested: boolean, column: string, parent: string) =>
+  column === parent || (nested && column.startsWith(parent + pathSep))
+
+const checkKey = (key: string) => {
+  if (key.includes(pathSep)) {
+    throw new Error(`cannot use "${pathSep}" in property "${key}"`)
+  }
+}
+
+// Flatten a value into the columns it is stored as. Values the codecs encode
+// are stored whole, even if they are plain objects, and so is everything
+// unless nested.
+const flatten = (
+  codecs: Codecs,
+  nested: boolean,
+  column: string,
+  value: unknown,
+  out: Record<string, unknown> = {},
+): Record<string, unknown> => {
+  if (!nested || !isPlainObject(value) || codecs.encodes(value)) {
+    out[column] = value
+    return out
+  }
+  Object.entries(value).forEach(([k, v]) => {
+    checkKey(k)
+    flatten(codecs, nested, column + pathSep + k, v, out)
+  })
+  return out
+}
+
+const flattenRow = (
+  codecs: Codecs,
+  nested: boolean,
+  value: Record<string, unknown>,
+) =>
+  Object.entries(value).reduce<Record<string, unknown>>((out, [k, v]) => {
+    if (nested) {
+      checkKey(k)
+    }
+    return flatten(codecs, nested, k, v, out)
+  }, {})
+
+// The minimum version of the database, which has all the internal stores.
+const minVersion = 4
+
+// Meta keys with the version of the last applied migration. The schema is
+// migrated while opening the database, and the data once it is open, so they
+// are recorded apart.
+const kSchemaMigration = 'schema_migration'
+const kDataMigration = 'data_migration'
+
+// The stores of the LocalIndexedDB used by the Store, before the namespace
+// prefix.
+const metaStoreName = 'message_meta'
+const internalStoreNames = [
+  'message_log',
+  'message_latest',
+  'message_quarantine',
+  metaStoreName,
+]
+
+const namespacePrefix = (namespace?: string): string => {
+  if (namespace === undefined) {
+    return ''
+  }
+  if (!namespace || namespace.includes(':')) {
+    throw new Error(`invalid namespace "${namespace}"`)
+  }
+  return `${namespace}:`
+}
+
+// Open the database, upgrading it if it is missing the internal stores, any
+// of the given row stores, or the schema migrations. The version is unknown up
+// front since other Stores on the database may have bumped it already, so it
+// is read first and bumped as needed.
+const openStoreDB = async (
+  name: string,
+  local: LocalIndexedDB,
+  {
+    prefix,
+    rowStores,
+    migrations = [],
+  }: { prefix: string; rowStores: string[]; migrations?: Migration[] },
+  callbacks: Pick<OpenDBCallbacks<unknown>, 'blocking' | 'terminated'>,
+): Promise<IDBPDatabase> => {
+  const stores = [
+    ...internalStoreNames.map(store => prefix + store),
+    ...rowStores,
+  ]
+  const schema = migrations.filter(m => m.upgrade)
+  const latest = schema.at(-1)?.version ?? 0
+  let failed: unknown
+  const upgrade: OpenDBCallbacks<unknown>['upgrade'] = (db, _, __, tx) => {
+    local.upgradeDB(db, tx)
+    rowStores.forEach(store => {
+      if (!db.objectStoreNames.contains(store)) {
+        db.createObjectStore(store, { keyPath: 'id' })
+      }
+    })
+    if (latest === 0) {
+      return
+    }
+    // the applied version is read within the upgrade, since another connection
+    // may have migrated the schema since it was checked.
+    const meta = tx.objectStore(prefix + metaStoreName)
+    meta
+      .get(kSchemaMigration)
+      .then(async applied => {
+        const pending = schema.filter(m => m.version > Number(applied ?? 0))
+        pending.forEach(m => m.upgrade!(db, tx))
+        if (pending.length) {
+          await meta.put(String(latest), kSchemaMigration)
+        }
+      })
+      .catch(err => {
+        failed = err
+        tx.abort()
+      })
+  }
+  while (true) {
+    const db = await openDB(name, undefined, { ...callbacks, upgrade })
+    if (
+      db.version >= minVersion &&
+      stores.every(store => db.objectStoreNames.contains(store)) &&
+      Number((await db.get(prefix + metaStoreName, kSchemaMigration)) ?? 0) >=
+        latest
+    ) {
+      return db
+    }
+    db.close()
+    try {
+      return await openDB(name, Math.max(minVersion, db.version + 1), {
+        ...callbacks,
+        upgrade,
+      })
+    } catch (err) {
+      if (failed) {
+        throw failed
+      }
+      // another connection bumped the version first, so try again.
+      if ((err as Error).name !== 'VersionError') {
+        throw err
+      }
+    }
+  }
+}
+
+type PurgedRow = { dataset: string; row: string }
+
+// Messages posted between Stores on the same database.
+type BroadcastMessage =
+  | { type: 'stored'; messages: Message[] }
+  | { type: 'purged'; rows: PurgedRow[] }
+  | { type: 'replaced' }
+
+// Estimate the storage used by the origin, where the browser supports it.
+const estimateStorage = async (): Promise<StorageEstimate> =>
+  (await globalThis.navigator?.storage?.estimate?.()) ?? {}
+
+const deepFreeze = <T>(v: T): T => {
+  if (typeof v === 'object' && v !== null) {
+    Object.values(v).forEach(deepFreeze)
+    Object.freeze(v)
+  }
+  return v
+}
+
 class DBProxy {
   #store: TheStore<any>
   constructor(s: TheStore<any>) {
@@ -100,7 +661,7 @@ class DatasetProxy {
     }
 
     // work with a clone, since we may modify it
-    value = structuredClone(value)
+    value = this.#store.codecs.clone(value)
 
     // ensure we have an ID and it is what we expect
     if ('id' in value) {
@@ -116,6 +677,16 @@ class DatasetProxy {
       value.id = id
     }
 
+    // nested objects may be stored as a column per leaf.
+    value = flattenRow(this.#store.codecs, this.#store.nested, value)
+    validateRow(
+      this.#store.schema,
+      this.#dataset,
+      id,
+      value,
+      this.#store.codecs,
+    )
+
     const dataset = this.#getDataset()
 
     // only send messages for changed values.
@@ -151,10 +722,23 @@ class DatasetProxy {
             }
           })
           .filter(v => v),
+        // a new row may reuse the id of a purged row, which is not in memory
+        // but is still deleted.
+        ...(id in dataset || !this.#store.purged
+          ? []
+          : [
+              {
+                dataset: this.#dataset,
+                row: id,
+                column: 'tombstone',
+                value: undefined,
+              },
+            ]),
       ],
     )
     // synchronously update our in-memory dataset.
     dataset[id] = value
+    this.#store.indexRow(this.#dataset, id)
     return true
   }
   deleteProperty(_: unknown, id: string): any {
@@ -172,6 +756,7 @@ class DatasetProxy {
     } else {
       dataset[id] = { tombstone: true }
     }
+    this.#store.indexRow(this.#dataset, id)
     return true
   }
   ownKeys() {
@@ -198,70 +783,162 @@ class DatasetProxy {
   }
 }
 
+// RowProxy provides access to a row, or to a nested object within a row when
+// given a column prefix. Nested objects are stored as a column per leaf, so
+// replicas editing different sub-fields merge instead of overwriting each
+// other.
 class RowProxy {
   #store: TheStore<any>
   #dataset: string
   #id: string
-  constructor(store: TheStore<any>, dataset: string, id: string) {
+  #prefix: string
+  constructor(store: TheStore<any>, dataset: string, id: string, prefix = '') {
     this.#store = store
     this.#dataset = dataset
     this.#id = id
+    this.#prefix = prefix
+  }
+  #row(): any {
+    return this.#store.mem[this.#dataset]?.[this.#id]
+  }
+  #validate(columns: (readonly [string, unknown])[]) {
+    columns.forEach(([column, value]) =>
+      validateColumn(
+        this.#store.schema,
+        this.#dataset,
+        this.#id,
+        column,
+        value,
+        this.#store.codecs,
+      ),
+    )
+  }
+  // columns in the row that are the given column or nested within it.
+  #columns(row: any, column: string): string[] {
+    const nested = this.#store.nested
+    return row ? Object.keys(row).filter(k => isWithin(nested, k, column)) : []
   }
-  get(_: unknown, prop: string) {
-    const row = this.#store.mem[this.#dataset]?.[this.#id]
+  get(_: unknown, prop: string | symbol) {
+    const row = this.#row()
     if (!row) {
       return
     }
-    const val = row[prop]
-    // hasOwn allows pass-thru of prototype properties like constructor
-    if (isPrimitive(val) || !Object.hasOwn(row, prop)) {
-      return val
+    if (typeof prop === 'symbol') {
+      return Reflect.get({}, prop)
     }
-    throw new Error(
-      `non primitive value for dataset "${this.#dataset}" row with id "${
-        this.#id
-      }" and property "${prop}" of type "${typeof val}" and value "${val}"`,
-    )
+    const column = this.#prefix + prop
+    const val = row[column]
+    if (Object.hasOwn(row, column) && val !== undefined) {
+      if (isPrimitive(val)) {
+        return val
+      }
+      // arrays are stored whole, and must be assigned whole to be changed.
+      if (Array.isArray(val)) {
+        return deepFreeze(this.#store.codecs.clone(val))
+      }
+      // values the codecs encode are returned as copies, and must be assigned
+      // to be changed.
+      if (this.#store.codecs.encodes(val)) {
+        return this.#store.codecs.clone(val)
+      }
+      // plain objects are stored whole unless nested, and like arrays must be
+      // assigned whole to be changed.
+      if (isPlainObject(val)) {
+        return deepFreeze(this.#store.codecs.clone(val))
+      }
+      throw new Error(
+        `non primitive value for dataset "${this.#dataset}" row with id "${
+          this.#id
+        }" and property "${column}" of type "${typeof val}" and value "${val}"`,
+      )
+    }
+    const nested = column + pathSep
+    if (
+      this.#store.nested &&
+      Object.keys(row).some(k => k.startsWith(nested))
+    ) {
+      return new Proxy(
+        {},
+        new RowProxy(this.#store, this.#dataset, this.#id, nested),
+      )
+    }
+    // allows pass-thru of prototype properties like constructor
+    return Reflect.get({}, prop)
   }
   set(_: any, prop: string, value: unknown): any {
+    const { codecs, nested } = this.#store
+    if (nested) {
+      checkKey(prop)
+    }
+    const column = this.#prefix + prop
+    const next = flatten(codecs, nested, column, codecs.clone(value))
+    // drop columns previously nested here that are no longer present
+    const dropped = this.#columns(this.#row(), column).filter(k => !(k in next))
+    this.#validate([
+      ...Object.entries(next),
+      ...dropped.map(k => [k, undefined] as const),
+    ])
     this.#store.send([
-      {
+      ...Object.entries(next).map(([k, v]) => ({
         dataset: this.#dataset,
         row: this.#id,
-        column: prop,
-        value: value,
-      },
+        column: k,
+        value: v,
+      })),
+      ...dropped.map(k => ({
+        dataset: this.#dataset,
+        row: this.#id,
+        column: k,
+        value: undefined,
+      })),
     ])
-    let dataset = this.#store.mem[this.#dataset]
-    if (!dataset) {
-      dataset = this.#store.mem[this.#dataset] = {}
-    }
-    let row = dataset[this.#id]
-    if (!row) {
-      row = dataset[this.#id] = { id: this.#id }
-    }
-    row[prop] = value
+    // mem is only changed once the writes are sent, so a batch saves the row
+    // as it was before.
+    const dataset = (this.#store.mem[this.#dataset] ??= {})
+    const row = (dataset[this.#id] ??= { id: this.#id })
+    dropped.forEach(k => delete row[k])
+    Object.assign(row, next)
+    this.#store.indexRow(this.#dataset, this.#id)
     return true
   }
   deleteProperty(_: unknown, prop: string): any {
-    this.#store.send([
-      {
+    const row = this.#row()
+    const column = this.#prefix + prop
+    const columns = this.#columns(row, column)
+    this.#validate(
+      (columns.length ? columns : [column]).map(k => [k, undefined]),
+    )
+    this.#store.send(
+      (columns.length ? columns : [column]).map(k => ({
         dataset: this.#dataset,
         row: this.#id,
-        column: prop,
+        column: k,
         value: undefined,
-      },
-    ])
-    delete this.#store.mem[this.#dataset]?.[this.#id]?.[prop]
+      })),
+    )
+    columns.forEach(k => delete row[k])
+    this.#store.indexRow(this.#dataset, this.#id)
     return true
   }
   ownKeys() {
-    const row = this.#store.mem[this.#dataset]?.[this.#id]
-    return row ? Object.keys(row) : []
+    const row = this.#row()
+    if (!row) {
+      return []
+    }
+    const keys = new Set<string>()
+    Object.keys(row).forEach(k => {
+      if (k.startsWith(this.#prefix)) {
+        const key = k.slice(this.#prefix.length)
+        keys.add(this.#store.nested ? key.split(pathSep)[0] : key)
+      }
+    })
+    return [...keys]
   }
-  has(_: unknown, p: string) {
-    const row = this.#store.mem[this.#dataset]?.[this.#id]
-    return row ? p in row : false
+  has(_: unknown, p: string | symbol) {
+    if (typeof p === 'symbol') {
+      return false
+    }
+    return this.#columns(this.#row(), this.#prefix + p).length > 0
   }
   defineProperty(): any {
     throw new TypeError(
@@ -291,69 +968,908 @@ class TheStore<DB extends object> implements Store<DB> {
   readonly #pending: Set<Promise<void>> = new Set()
   readonly #datasetProxies: Record<string, ProxyHandler<Record<string, any>>> =
     {}
-  readonly #idb: IDBPDatabase
-  readonly #local: LocalIndexedDB
-  readonly syncDB: SyncDB
+  readonly #indexes: { [dataset: string]: { [column: string]: ColumnIndex } } =
+    {}
+  // the database, unless a custom Local is used.
+  #idb?: Promise<IDBPDatabase>
+  readonly #local: StoreLocal
+  // serializes writes to the materialized row stores.
+  #materializing: Promise<void> = Promise.resolve()
+  #channel?: BroadcastChannel
+  // unsubscribes the Store from the Local.
+  #unlisten: (() => void)[] = []
+  // changes being restored by a rollback, which mem already has.
+  #restored?: Changes
+  #eventListeners: { (event: StoreEvent): void }[] = []
+  #status: SyncStatus = Object.freeze({
+    pending: 0,
+    syncing: false,
+    lastSync: undefined,
+    lastError: undefined,
+    unsynced: 0,
+  })
+  #statusListeners: { (status: SyncStatus): void }[] = []
+  // number of sends and syncs in flight, and the latest status refresh.
+  #sends = 0
+  #syncs = 0
+  #refreshes = 0
+  // the refresh of the status after messages are stored.
+  #nextRefresh?: Promise<void>
+  #closed = false
+  // the data is being replaced, so syncs and writes are rejected.
+  #replacing = false
+  // the storage usage reached the quota threshold, and the latest check.
+  #overQuota = false
+  #quotaChecks = 0
+  // when a rejected write last checked the usage.
+  #quotaRechecked = 0
+  // datasets that are loaded or being loaded, if they are loaded on demand.
+  readonly #loaded?: Map<string, Promise<void>>
+  readonly #ready = new Set<string>()
+  readonly #opts: Opts
+  readonly #scheduler?: SyncScheduler
+  // the sync after local writes, when there is no scheduler.
+  #nextSync?: Promise<void>
+  readonly #syncLocal: SyncLocal
+  syncDB: SyncDB
+  readonly schema?: Schema
+  readonly codecs: Codecs
+  // plain objects are stored as a column per leaf.
+  readonly nested: boolean
+  // deleted rows have been purged, so rows missing from mem may be deleted.
+  purged = false
   mem: any
+  #undo: UndoManager
+  #batch?: {
+    messages: Parameters<SyncDB['send']>[0]
+    cells: ReturnType<UndoManager['capture']>
+    // rows as they were before the batch, to restore if it fails.
+    rows: Map<string, [string, string, unknown]>
+  }
 
   private constructor(
-    idb: IDBPDatabase,
-    local: LocalIndexedDB,
+    idb: Promise<IDBPDatabase> | undefined,
+    local: StoreLocal,
+    syncLocal: SyncLocal,
     syncDB: SyncDB,
     mem: any,
+    codecs: Codecs,
+    opts: Opts,
   ) {
     this.#idb = idb
     this.#local = local
+    this.#syncLocal = syncLocal
     this.syncDB = syncDB
     this.mem = mem
+    this.#opts = opts
+    this.schema = opts.schema
+    this.codecs = codecs
+    this.nested = opts.nested ?? false
+    if (opts.datasets) {
+      this.#loaded = new Map(
+        opts.datasets.map(dataset => [dataset, Promise.resolve()]),
+      )
+      opts.datasets.forEach(dataset => this.#ready.add(dataset))
+    }
+    if (opts.sync) {
+      this.#scheduler = new SyncScheduler(() => this.#sync(), opts.sync)
+    }
+    this.#undo = new UndoManager(this, opts.undoLimit)
     this.#dbProxy = new Proxy({}, new DBProxy(this))
+    this.#buildIndexes()
+  }
+
+  // Sync with the Remote, tracking the syncs for the status.
+  async #sync(): Promise<void> {
+    if (this.#replacing) {
+      throw new Error('data is being replaced')
+    }
+    this.#setStatus({ syncing: ++this.#syncs > 0 })
+    try {
+      await this.syncDB.sync()
+      this.#setStatus({ lastError: undefined })
+    } catch (err) {
+      this.#setStatus({ lastError: err as Error })
+      throw err
+    } finally {
+      this.#setStatus({ syncing: --this.#syncs > 0 })
+      await this.#refreshStatus()
+    }
+  }
+
+  // Sync after local writes, leaving it to the scheduler if there is one.
+  // Otherwise the writes made within a short delay share a sync, as they would
+  // with SyncDB.send. Failures are reported by the status.
+  #written() {
+    if (this.#scheduler) {
+      this.#scheduler.written()
+      return
+    }
+    if (this.#nextSync) {
+      return
+    }
+    const r = (this.#nextSync = (async () => {
+      await new Promise(resolve => setTimeout(resolve, 50))
+      this.#nextSync = undefined
+      if (!this.#closed && !this.#replacing) {
+        await this.#sync()
+      }
+    })().catch(() => {}))
+    this.#pending.add(r)
+    r.finally(() => this.#pending.delete(r))
+  }
+
+  // Apply and store local writes through SyncDB, assigning their timestamps in
+  // place. Unlike SyncDB.send, this does not sync.
+  async #apply(messages: Omit<Message, 'timestamp'>[]): Promise<void> {
+    await this.syncDB.recv(this.#syncLocal.stamp(messages))
+  }
+
+  #buildIndexes() {
+    Object.entries(this.#opts.indexes ?? {}).forEach(([dataset, columns]) => {
+      const byColumn: { [column: string]: ColumnIndex } = {}
+      columns.forEach(column => {
+        const index = (byColumn[column] = new ColumnIndex(column))
+        Object.entries(this.mem[dataset] ?? {}).forEach(
+          ([id, row]: [string, any]) => index.update(id, row),
+        )
+      })
+      this.#indexes[dataset] = byColumn
+    })
   }
 
   static async new(opts: Opts) {
     const mem = {}
 
-    const local = new LocalIndexedDB()
-    local.listenChanges(syncDatasetMem(mem))
-    const idb = await openDB(opts.dbName, 1, {
-      upgrade: db => local.upgradeDB(db),
-      blocking: () => idb.close(),
+    if (opts.materialize && opts.encryption) {
+      throw new Error('cannot materialize rows with encryption')
+    }
+    if (
+      opts.local &&
+      (opts.materialize || opts.encryption || opts.namespace !== undefined)
+    ) {
+      throw new Error(
+        'cannot materialize rows, encrypt or use a namespace with a custom local',
+      )
+    }
+    const prefix = namespacePrefix(opts.namespace)
+    opts.migrations?.forEach(({ version }, i, migrations) => {
+      if (
+        !Number.isInteger(version) ||
+        version <= (i === 0 ? 0 : migrations[i - 1].version)
+      ) {
+        throw new Error(
+          `migration versions must be increasing positive integers, found ${version}`,
+        )
+      }
     })
-    await loadDatasetMem(mem, idb)
-    local.setDB(idb)
+    const codecs = new Codecs(opts.codecs)
+    let store: TheStore<any> | undefined
+    let local: StoreLocal
+    let idb: IDBPDatabase | undefined
+    if (opts.local) {
+      local = await opts.local()
+      local.setCodecs(codecs)
+      await local.loadDatasets(mem, opts.datasets)
+    } else {
+      const indexedDB = new LocalIndexedDB(prefix, opts.encryption)
+      indexedDB.setCodecs(codecs)
+      const db = await openStoreDB(
+        opts.dbName,
+        indexedDB,
+        { prefix, rowStores: [], migrations: opts.migrations },
+        {
+          blocking: () => {
+            if (store) {
+              store.#blocking()
+            } else {
+              db.close()
+            }
+          },
+          terminated: () => store && store.#shutdown({ type: 'terminated' }),
+        },
+      )
+      indexedDB.setDB(db)
+      try {
+        await indexedDB.loadDatasets(mem, opts.datasets)
+      } catch (err) {
+        // such as when decrypting using the wrong key.
+        db.close()
+        throw err
+      }
+      local = indexedDB
+      idb = db
+    }
+    // changes restored by a rollback are already in mem.
+    const syncMem = syncDatasetMem(mem)
+    const unlisten = [
+      local.listenChanges(changes => {
+        if (!store || changes !== store.#restored) {
+          syncMem(changes)
+        }
+      }),
+    ]
+    if (opts.schema) {
+      const schema = opts.schema
+      local.setMessageFilter(msg => {
+        try {
+          validateColumn(
+            schema,
+            msg.dataset,
+            msg.row,
+            msg.column,
+            codecs.decode(msg.value),
+            codecs,
+          )
+          return 'accept'
+        } catch (err) {
+          return opts.onInvalid?.(msg, err as Error) ?? 'drop'
+        }
+      })
+    }
 
-    const syncDB = await SyncDB.new(opts.remote, local)
-    const store = new TheStore(idb, local, syncDB, mem)
+    const syncLocal = new SyncLocal(local)
+    const syncDB = await SyncDB.new(opts.remote, syncLocal)
+    store = new TheStore(
+      idb && Promise.resolve(idb),
+      local,
+      syncLocal,
+      syncDB,
+      mem,
+      codecs,
+      opts,
+    )
+    // a custom Local may outlive the Store.
+    store.#unlisten = unlisten
+    if (idb && opts.materialize) {
+      // create and fill the row stores for datasets that do not have one yet.
+      const prefix = store.#rowStorePrefix
+      const datasets = (await local.queryDatasets()).filter(
+        dataset => !idb.objectStoreNames.contains(prefix + dataset),
+      )
+      await store.#materializeAll(datasets, false)
+      unlisten.push(
+        local.listenChanges(changes => {
+          const r = store.#materialize(changes)
+          store.#pending.add(r)
+          r.finally(() => store.#pending.delete(r))
+        }),
+      )
+    }
+    // keep indexes up to date with changes applied from any source.
+    unlisten.push(
+      local.listenChanges(changes =>
+        Object.entries(changes).forEach(([dataset, rows]) =>
+          Object.keys(rows).forEach(id => store.indexRow(dataset, id)),
+        ),
+      ),
+      local.listenConflicts(conflicts =>
+        conflicts.forEach(({ winner, loser }) =>
+          store.#emit({
+            type: 'conflict',
+            winner: historyEntry(codecs, winner),
+            loser: historyEntry(codecs, loser),
+          }),
+        ),
+      ),
+      local.listenStored(() => store.#refreshStatusLater()),
+    )
+    if (opts.quota) {
+      unlisten.push(local.listenStored(() => store.#checkQuotaLater()))
+    }
+
+    store.purged = await local.hasPurged()
+    if (opts.migrations) {
+      try {
+        await store.#migrate(opts.migrations)
+      } catch (err) {
+        store.close()
+        throw err
+      }
+    }
+    await store.#refreshStatus()
+    if (opts.quota) {
+      await store.#checkQuota()
+    }
 
-    // start initial sync, and make it pending for settle
-    const r = syncDB.sync()
+    if (
+      opts.broadcast ??
+      (!opts.local && typeof BroadcastChannel !== 'undefined')
+    ) {
+      store.#broadcast(`kombat-indexed-db:${opts.dbName}:${prefix}`)
+    }
+
+    // start initial sync, and make it pending for settle. Failures are
+    // reported by the status.
+    const r = (
+      store.#scheduler ? store.#scheduler.start() : store.#sync()
+    ).catch(() => {})
     store.#pending.add(r)
     r.finally(() => store.#pending.delete(r))
 
     return store
   }
 
+  // Apply the data migrations that have not been applied yet, recording each
+  // once its messages are stored.
+  async #migrate(migrations: Migration[]) {
+    const applied = Number((await this.#local.get(kDataMigration)) ?? 0)
+    const pending = migrations.filter(m => m.version > applied)
+    if (pending.length === 0) {
+      return
+    }
+    const rows: Snapshot = {}
+    if (pending.some(m => m.data)) {
+      // migrating while offline still works, with the rows as they are.
+      await this.#sync().catch(() => {})
+      await this.#local.loadDatasets(rows)
+      // cleared cells are left out, as they would be had they never been set.
+      Object.values(rows).forEach(dataset =>
+        Object.values(dataset).forEach(row =>
+          Object.keys(row).forEach(column => {
+            if (row[column] === undefined) {
+              delete row[column]
+            }
+          }),
+        ),
+      )
+    }
+    for (const m of pending) {
+      const messages = (m.data?.(rows) ?? []).filter(
+        ({ dataset, row, column, value }) =>
+          !dequal(rows[dataset]?.[row]?.[column], value),
+      )
+      if (messages.length) {
+        // the initial sync sends them.
+        await this.#apply(
+          messages.map(msg => ({
+            ...msg,
+            value: this.codecs.encode(msg.value),
+          })),
+        )
+        messages.forEach(({ dataset, row, column, value }) => {
+          const migrated = ((rows[dataset] ??= {})[row] ??= { id: row })
+          if (value === undefined) {
+            delete migrated[column]
+          } else {
+            migrated[column] = value
+          }
+        })
+      }
+      await this.#local.set(kDataMigration, String(m.version))
+    }
+  }
+
   close() {
-    this.#idb?.close()
+    this.#shutdown({ type: 'closed' })
     this.mem = null
   }
 
+  #shutdown(event: StoreEvent) {
+    if (this.#closed) {
+      return
+    }
+    this.#closed = true
+    this.#scheduler?.stop()
+    this.#channel?.close()
+    this.#unlisten.forEach(unlisten => unlisten())
+    this.#idb?.then(
+      db => db.close(),
+      () => {},
+    )
+    this.#emit(event)
+  }
+
+  // Another connection wants to upgrade the database. Stores that materialize
+  // rows or use a namespace expect this and reconnect once it is done, others
+  // shut down.
+  #blocking() {
+    if (this.#opts.materialize || this.#opts.namespace !== undefined) {
+      this.#reopen([])
+    } else {
+      this.#shutdown({ type: 'blocking' })
+    }
+  }
+
+  // Close the database and open it again, creating any missing row stores.
+  // Operations wait for it to be opened again. If the namespace, or the whole
+  // database, was deleted meanwhile, the Store shuts down rather than creating
+  // it again.
+  #reopen(rowStores: string[]) {
+    const prev = this.#idb!
+    // rows are only materialized using LocalIndexedDB.
+    const local = this.#local as LocalIndexedDB
+    const prefix = namespacePrefix(this.#opts.namespace)
+    this.#idb = (async () => {
+      ;(await prev).close()
+      const existing = await openExistingDB(this.#opts.dbName)
+      const deleted =
+        !existing ||
+        !internalStoreNames.every(store =>
+          existing.objectStoreNames.contains(prefix + store),
+        )
+      existing?.close()
+      if (deleted) {
+        this.#shutdown({ type: 'deleted' })
+        throw new Error('namespace was deleted')
+      }
+      return await openStoreDB(
+        this.#opts.dbName,
+        local,
+        {
+          prefix,
+          rowStores,
+          migrations: this.#opts.migrations,
+        },
+        {
+          blocking: () => this.#blocking(),
+          terminated: () => this.#shutdown({ type: 'terminated' }),
+        },
+      )
+    })()
+    local.setDB(this.#idb)
+  }
+
+  get #rowStorePrefix(): string {
+    return (
+      namespacePrefix(this.#opts.namespace) +
+      (this.#opts.materialize?.prefix ?? 'rows_')
+    )
+  }
+
+  // Create the row stores for the datasets if they are missing.
+  async #ensureRowStores(datasets: string[]): Promise<IDBPDatabase> {
+    const db = await this.#idb!
+    const missing = datasets
+      .map(dataset => this.#rowStorePrefix + dataset)
+      .filter(store => !db.objectStoreNames.contains(store))
+    if (missing.length === 0) {
+      return db
+    }
+    this.#reopen(missing)
+    return await this.#idb!
+  }
+
+  // Write changes to the materialized row stores, in the order they were made.
+  #materialize(changes: Changes): Promise<void> {
+    const r = this.#materializing.then(async () => {
+      if (this.#closed || Object.keys(changes).length === 0) {
+        return
+      }
+      const db = await this.#ensureRowStores(Object.keys(changes))
+      await syncDatasetIndexedDB(db, this.#rowStorePrefix)(changes)
+    })
+    this.#materializing = r.catch(() => {})
+    return r
+  }
+
+  // Fill the row stores for the datasets from the latest messages, optionally
+  // clearing them first.
+  #materializeAll(datasets: string[], clear: boolean): Promise<void> {
+    const r = this.#materializing.then(async () => {
+      if (datasets.length === 0) {
+        return
+      }
+      const db = await this.#ensureRowStores(datasets)
+      if (clear) {
+        const names = datasets.map(dataset => this.#rowStorePrefix + dataset)
+        const t = db.transaction(names, 'readwrite')
+        await Promise.all(names.map(name => t.objectStore(name).clear()))
+        await t.done
+      }
+      const rows: Changes = {}
+      await this.#local.loadDatasets(rows, datasets)
+      await syncDatasetIndexedDB(db, this.#rowStorePrefix)(rows)
+    })
+    this.#materializing = r.catch(() => {})
+    return r
+  }
+
+  #emit(event: StoreEvent) {
+    this.#eventListeners.forEach(c => c(event))
+  }
+
+  get status(): SyncStatus {
+    return this.#status
+  }
+
+  listenStatus(cb: (status: SyncStatus) => void): () => void {
+    this.#statusListeners.push(cb)
+    return () => {
+      this.#statusListeners = this.#statusListeners.filter(e => e != cb)
+    }
+  }
+
+  #setStatus(update: Partial<SyncStatus>) {
+    const status = { ...this.#status, ...update }
+    if (dequal(status, this.#status)) {
+      return
+    }
+    this.#status = Object.freeze(status)
+    this.#statusListeners.forEach(c => c(status))
+  }
+
+  // Refresh the parts of the status that are stored. Only the latest refresh
+  // is used, since they may finish out of order.
+  async #refreshStatus() {
+    if (this.#closed) {
+      return
+    }
+    const refresh = ++this.#refreshes
+    const { lastSync, count } = await this.#local.queryUnsynced()
+    if (refresh === this.#refreshes) {
+      this.#setStatus({
+        lastSync: lastSync ? Timestamp.fromJSON(lastSync).millis : undefined,
+        unsynced: count,
+      })
+    }
+  }
+
+  // Refresh the status after messages are stored. The messages stored within a
+  // short delay share a refresh, rather than each scanning the log.
+  #refreshStatusLater() {
+    if (this.#nextRefresh) {
+      return
+    }
+    const r = (this.#nextRefresh = (async () => {
+      await new Promise(resolve => setTimeout(resolve, 50))
+      this.#nextRefresh = undefined
+      await this.#refreshStatus()
+    })().catch(() => {}))
+    this.#pending.add(r)
+    r.finally(() => this.#pending.delete(r))
+  }
+
+  // Check the storage usage against the quota threshold, applying the policy
+  // once it is reached. A write that failed for exceeding the quota counts as
+  // reaching it. Only the latest check is used, since they may finish out of
+  // order, unless it is for a failed write.
+  async #checkQuota(failed = false): Promise<StorageEstimate> {
+    const check = ++this.#quotaChecks
+    const estimate = await estimateStorage()
+    const opts = this.#opts.quota
+    if (!opts || this.#closed || (!failed && check !== this.#quotaChecks)) {
+      return estimate
+    }
+    const { usage, quota } = estimate
+    const over =
+      failed ||
+      (usage !== undefined &&
+        quota !== undefined &&
+        usage >= quota * (opts.threshold ?? 0.9))
+    if (over === this.#overQuota) {
+      return estimate
+    }
+    this.#overQuota = over
+    if (over) {
+      const policy = opts.policy ?? 'compact'
+      this.#emit({ type: 'quotaexceeded', usage, quota, policy })
+      if (policy === 'compact') {
+        await this.#local.compact(new Timestamp(Date.now(), 0, '0').toJSON())
+      }
+    }
+    return estimate
+  }
+
+  // Check the quota without waiting for it, while keeping it pending for
+  // settle. Failures are ignored, and the next check tries again.
+  #checkQuotaLater() {
+    const r = this.#checkQuota().then(
+      () => {},
+      () => {},
+    )
+    this.#pending.add(r)
+    r.finally(() => this.#pending.delete(r))
+  }
+
+  async storageUsage(): Promise<StorageUsage> {
+    const [{ usage, quota }, stores] = await Promise.all([
+      estimateStorage(),
+      this.#local.queryStoreSizes(),
+    ])
+    return { usage, quota, stores }
+  }
+
+  async requestPersistence(): Promise<boolean> {
+    return (await globalThis.navigator?.storage?.persist?.()) ?? false
+  }
+
+  listenEvents(cb: (event: StoreEvent) => void): () => void {
+    this.#eventListeners.push(cb)
+    return () => {
+      this.#eventListeners = this.#eventListeners.filter(e => e != cb)
+    }
+  }
+
+  // Post newly stored messages to other Stores on the same database, and apply
+  // the ones they post. The messages are already stored by the sender, so the
+  // receiver only needs to apply those that are still the latest, and include
+  // all of them in its clock to stay consistent with the log. They are received
+  // through SyncDB, which does both. Purged rows are posted too, so they are
+  // dropped from memory everywhere, and so is replacing the data, which is
+  // then loaded again everywhere.
+  #broadcast(name: string) {
+    const channel = (this.#channel = new BroadcastChannel(name))
+    this.#unlisten.push(
+      this.#local.listenStored(messages =>
+        this.#post({ type: 'stored', messages }),
+      ),
+    )
+    channel.onmessage = ({ data }: MessageEvent<BroadcastMessage>) => {
+      if (this.#closed) {
+        return
+      }
+      if (data.type === 'purged') {
+        this.#local.purgedElsewhere()
+        this.#dropPurged(data.rows)
+        return
+      }
+      let r: Promise<void>
+      if (data.type === 'replaced') {
+        this.#local.replacedElsewhere()
+        r = this.#replace(async () => {})
+      } else {
+        this.#syncLocal.storedElsewhere(data.messages)
+        r = this.syncDB.recv(data.messages)
+      }
+      r = r.catch(err => {
+        // the database is closed along with the Store.
+        if (!this.#closed) {
+          this.#setStatus({ lastError: err as Error })
+        }
+      })
+      this.#pending.add(r)
+      r.finally(() => this.#pending.delete(r))
+    }
+  }
+
+  #post(msg: BroadcastMessage) {
+    this.#channel?.postMessage(msg)
+  }
+
   async settle(): Promise<void> {
-    await Promise.allSettled(this.#pending.values())
-    await this.syncDB.settle()
+    // writes add the sync that follows them while pending.
+    while (this.#pending.size) {
+      await Promise.allSettled(this.#pending.values())
+    }
+    await this.#scheduler?.settle()
   }
 
   listenChanges(cb: ChangeListener): () => void {
     return this.#local.listenChanges(cb)
   }
 
+  quarantined(): Promise<Message[]> {
+    return this.#local.queryQuarantinedMessages()
+  }
+
+  exportReplica(opts?: { plaintext?: boolean }): ReadableStream<string> {
+    return this.#local.exportReplica(opts)
+  }
+
+  async importReplica(
+    input: ReadableStream<string> | string,
+    { replace = false }: { replace?: boolean } = {},
+  ): Promise<void> {
+    if (!replace) {
+      // merged messages go through SyncDB, just like those from the Remote.
+      let batch: Message[] = []
+      for await (const entry of readReplica(input)) {
+        if ('message' in entry) {
+          batch.push(entry.message)
+          if (batch.length === replicaPageSize) {
+            await this.syncDB.recv(batch)
+            batch = []
+          }
+        }
+      }
+      await this.syncDB.recv(batch)
+      return
+    }
+
+    // replacing discards everything held in memory, including the SyncDB
+    // clock, and loads it again from the imported replica. Other Stores on the
+    // database do the same.
+    await this.#replace(async () => {
+      await this.settle()
+      Object.keys(this.mem).forEach(dataset => delete this.mem[dataset])
+      await this.#local.importReplica(input, { replace })
+      if (this.#opts.materialize) {
+        const idb = await this.#idb!
+        const prefix = this.#rowStorePrefix
+        const stale = [...idb.objectStoreNames]
+          .filter(name => name.startsWith(prefix))
+          .map(name => name.slice(prefix.length))
+        const datasets = await this.#local.queryDatasets()
+        await this.#materializeAll([...new Set([...stale, ...datasets])], true)
+      }
+    })
+    this.#post({ type: 'replaced' })
+  }
+
+  // Replace the data, and load it again. Syncs are paused and writes rejected
+  // meanwhile, since they would save the clock being replaced.
+  async #replace(replace: () => Promise<void>) {
+    const scheduler = this.#scheduler
+    const resume = scheduler && !scheduler.paused
+    scheduler?.pause()
+    this.#replacing = true
+    try {
+      await replace()
+      await this.#reload()
+    } finally {
+      this.#replacing = false
+      if (resume && !this.#closed) {
+        scheduler.resume()
+      }
+    }
+  }
+
+  // Load the data again after it was replaced.
+  async #reload() {
+    Object.keys(this.mem).forEach(dataset => delete this.mem[dataset])
+    this.purged = await this.#local.hasPurged()
+    await this.#local.loadDatasets(
+      this.mem,
+      this.#loaded && [...this.#loaded.keys()],
+    )
+    this.#buildIndexes()
+    this.#undo = new UndoManager(this, this.#opts.undoLimit)
+    this.syncDB = await SyncDB.new(this.#opts.remote, this.#syncLocal)
+    this.#emit({ type: 'replaced' })
+  }
+
+  async rotateKey(encryption?: Encryption): Promise<void> {
+    if (this.#opts.materialize && encryption) {
+      throw new Error('cannot materialize rows with encryption')
+    }
+    await this.settle()
+    await this.#local.rotateKey(encryption)
+  }
+
+  async history(
+    dataset: string,
+    id: string,
+    column?: string,
+  ): Promise<HistoryEntry[]> {
+    const messages = await this.#local.queryHistory(dataset, id, column)
+    return messages.map(msg => historyEntry(this.codecs, msg))
+  }
+
+  snapshotAt(timestamp: string, datasets?: (keyof DB)[]): Promise<Snapshot> {
+    return this.#local.snapshotAt(timestamp, datasets as string[] | undefined)
+  }
+
+  watch(...args: WatchArgs): () => void {
+    switch (args.length) {
+      case 2:
+        return this.#local.watch(...args)
+      case 3:
+        return this.#local.watch(...args)
+      case 4:
+        return this.#local.watch(...args)
+    }
+  }
+
+  query<K extends keyof DB>(dataset: K, q: Query = {}): RowOf<DB[K]>[] {
+    const name = dataset as string
+    const proxy: any = this.datasetProxy(name)
+    return runQuery(this.mem[name], this.#indexes[name], q).map(id => proxy[id])
+  }
+
+  live<K extends keyof DB>(
+    dataset: K,
+    q: Query,
+    cb: (result: LiveResult<RowOf<DB[K]>>) => void,
+  ): () => void {
+    const name = dataset as string
+    let ids: string[] | undefined
+    const run = (changed: (id: string) => boolean) => {
+      const next = runQuery(this.mem[name], this.#indexes[name], q)
+      const prev = new Set(ids)
+      const current = new Set(next)
+      const added = next.filter(id => !prev.has(id))
+      const removed = (ids ?? []).filter(id => !current.has(id))
+      const updated = next.filter(id => prev.has(id) && changed(id))
+      // changes to rows outside the result leave it as is.
+      if (
+        ids &&
+        !added.length &&
+        !removed.length &&
+        !updated.length &&
+        dequal(ids, next)
+      ) {
+        return
+      }
+      ids = next
+      const proxy: any = this.datasetProxy(name)
+      cb({ rows: next.map(id => proxy[id]), ids, added, removed, updated })
+    }
+    const unwatch = this.#local.watch(name, changes =>
+      run(id => id in changes[name]),
+    )
+    const unlisten = this.listenEvents(event => {
+      if (event.type === 'replaced') {
+        run(() => true)
+      } else if (event.type === 'loaded' && event.dataset === name) {
+        run(() => false)
+      }
+    })
+    run(() => false)
+    return () => {
+      unwatch()
+      unlisten()
+    }
+  }
+
+  // update the indexes for a row after it was changed in mem.
+  indexRow(dataset: string, id: string) {
+    const indexes = this.#indexes[dataset]
+    if (!indexes) {
+      return
+    }
+    const row = this.mem[dataset]?.[id]
+    Object.values(indexes).forEach(index => index.update(id, row))
+  }
+
   get db(): DB {
     // @ts-expect-error type bypass
     return this.#dbProxy
   }
 
+  load(dataset: string): Promise<void> {
+    if (!this.#loaded) {
+      return Promise.resolve()
+    }
+    const loaded = this.#loaded
+    let loading = loaded.get(dataset)
+    if (!loading) {
+      const failed = (loading = this.#loadDataset(dataset).catch(err => {
+        // forget the failed load, so it can be tried again.
+        if (loaded.get(dataset) === failed) {
+          loaded.delete(dataset)
+        }
+        if (!this.#closed) {
+          this.#emit({ type: 'loadfailed', dataset, error: err as Error })
+        }
+        throw err
+      }))
+      loaded.set(dataset, loading)
+      const r = loading.catch(() => {})
+      this.#pending.add(r)
+      r.finally(() => this.#pending.delete(r))
+    }
+    return loading
+  }
+
+  isLoaded(dataset: string): boolean {
+    return !this.#loaded || this.#ready.has(dataset)
+  }
+
+  // Load a dataset into mem. Values already in mem are the result of changes
+  // applied after loading started, and are kept.
+  async #loadDataset(dataset: string) {
+    const loaded: any = {}
+    await this.#local.loadDatasets(loaded, [dataset])
+    if (this.#closed) {
+      return
+    }
+    const rows = (this.mem[dataset] ??= {})
+    Object.entries(loaded[dataset] ?? {}).forEach(
+      ([id, row]: [string, any]) => {
+        rows[id] = { ...row, ...rows[id] }
+        this.indexRow(dataset, id)
+      },
+    )
+    this.#ready.add(dataset)
+    this.#emit({ type: 'loaded', dataset })
+  }
+
   datasetProxy(dataset: string) {
     let proxy = this.#datasetProxies[dataset]
     if (!proxy) {
+      // failures are reported by a loadfailed event.
+      this.load(dataset).catch(() => {})
       this.#datasetProxies[dataset] = proxy = new Proxy(
         {},
         new DatasetProxy(this, dataset),
@@ -362,15 +1878,326 @@ class TheStore<DB extends object> implements Store<DB> {
     return proxy
   }
 
+  batch(fn: (db: DB) => void): void {
+    // nested batches become part of the outer one.
+    if (this.#batch) {
+      fn(this.db)
+      return
+    }
+    const batch = (this.#batch = { messages: [], cells: [], rows: new Map() })
+    try {
+      fn(this.db)
+    } catch (err) {
+      batch.rows.forEach(([dataset, id, row]) => {
+        if (row === undefined) {
+          delete this.mem[dataset]?.[id]
+        } else {
+          this.mem[dataset][id] = row
+        }
+        this.indexRow(dataset, id)
+      })
+      throw err
+    } finally {
+      this.#batch = undefined
+    }
+    this.#undo.record(batch.cells)
+    if (batch.messages.length) {
+      this.#send(batch.messages, batch.cells)
+    }
+  }
+
+  undo(): boolean {
+    return this.#undo.undo()
+  }
+
+  redo(): boolean {
+    return this.#undo.redo()
+  }
+
+  get canUndo(): boolean {
+    return this.#undo.canUndo
+  }
+
+  get canRedo(): boolean {
+    return this.#undo.canRedo
+  }
+
+  async restore(dataset: string, id: string): Promise<void> {
+    const existing = this.mem[dataset]?.[id]
+    if (existing ? !existing.tombstone : !(await this.#isPurged(dataset, id))) {
+      return
+    }
+    this.send([{ dataset, row: id, column: 'tombstone', value: undefined }])
+    const row = ((this.mem[dataset] ??= {})[id] ??= { id })
+    delete row.tombstone
+    this.indexRow(dataset, id)
+  }
+
+  // Check if a row missing from memory was purged, which is when its stored
+  // tombstone is still set. Rows that never existed have none.
+  async #isPurged(dataset: string, id: string): Promise<boolean> {
+    if (!this.purged) {
+      return false
+    }
+    const [tombstone] = await this.#local.queryLatestMessages([
+      { timestamp: '', dataset, row: id, column: 'tombstone' },
+    ])
+    // the row may have been written meanwhile.
+    return tombstone?.value === true && !this.mem[dataset]?.[id]
+  }
+
+  async purgeTombstones(horizon: number): Promise<number> {
+    await this.settle()
+    const purged = await this.#local.purgeTombstones(
+      new Timestamp(horizon, 0, '0').toJSON(),
+    )
+    if (purged.length) {
+      this.#dropPurged(purged)
+      this.#post({ type: 'purged', rows: purged })
+    }
+    return purged.length
+  }
+
+  // Drop purged rows from memory.
+  #dropPurged(rows: PurgedRow[]) {
+    this.purged = true
+    rows.forEach(({ dataset, row }) => {
+      // rows restored meanwhile are kept.
+      if (this.mem[dataset]?.[row]?.tombstone) {
+        delete this.mem[dataset][row]
+        this.indexRow(dataset, row)
+      }
+    })
+  }
+
+  pause() {
+    this.#scheduler?.pause()
+  }
+
+  resume(): Promise<void> {
+    if (this.#replacing) {
+      return Promise.reject(new Error('data is being replaced'))
+    }
+    return this.#scheduler?.resume() ?? Promise.resolve()
+  }
+
   // wrap the syncDB send and hold on to the promises until they settle,
-  // allowing callers to let things settle.
+  // allowing callers to let things settle. within a batch, the messages are
+  // collected instead, and the rows they affect are saved in case of failure.
   send(...args: Parameters<SyncDB['send']>) {
-    const r = this.syncDB.send(...args)
+    if (this.#closed) {
+      throw new Error('store is closed')
+    }
+    if (this.#replacing) {
+      throw new Error('data is being replaced')
+    }
+    if (this.#overQuota && this.#opts.quota?.policy === 'reject') {
+      // the usage may have fallen since, such as when other tabs compacted.
+      const now = Date.now()
+      if (
+        now - this.#quotaRechecked >=
+        (this.#opts.quota.recheckInterval ?? 1000)
+      ) {
+        this.#quotaRechecked = now
+        this.#checkQuotaLater()
+      }
+      throw new Error('storage quota exceeded')
+    }
+    const loading = args[0].find(({ dataset }) => !this.isLoaded(dataset))
+    if (loading) {
+      throw new Error(`dataset "${loading.dataset}" is still loading`)
+    }
+    // the values are sent encoded, while mem and the undo history hold them as
+    // they were written.
+    const messages = args[0].map(msg => ({
+      ...msg,
+      value: this.codecs.encode(msg.value),
+    }))
+    const cells = this.#undo.capture(args[0])
+    const batch = this.#batch
+    if (batch) {
+      batch.cells.push(...cells)
+      args[0].forEach(({ dataset, row }) => {
+        const key = JSON.stringify([dataset, row])
+        if (!batch.rows.has(key)) {
+          const existing = this.mem[dataset]?.[row]
+          batch.rows.set(key, [dataset, row, this.codecs.clone(existing)])
+        }
+      })
+      batch.messages.push(...messages)
+      return
+    }
+    this.#undo.record(cells)
+    this.#send(messages, cells)
+  }
+
+  #send(
+    messages: Parameters<SyncDB['send']>[0],
+    cells: ReturnType<UndoManager['capture']>,
+  ) {
+    this.#setStatus({ pending: ++this.#sends })
+    const r = this.#write(messages, cells)
     this.#pending.add(r)
-    r.finally(() => this.#pending.delete(r))
+    r.finally(() => {
+      this.#pending.delete(r)
+      this.#setStatus({ pending: --this.#sends })
+    })
+  }
+
+  // Send the messages, handling failures according to the onError policy.
+  async #write(
+    messages: Parameters<SyncDB['send']>[0],
+    cells: ReturnType<UndoManager['capture']>,
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.#apply(messages)
+        this.#written()
+        return
+      } catch (err) {
+        const error = err as Error
+        // the timestamps are assigned in place.
+        const sent = messages as Message[]
+        this.#setStatus({ lastError: error })
+        if (error.name === 'QuotaExceededError') {
+          await this.#checkQuota(true)
+        }
+        let policy = (await this.#opts.onError?.(error, sent)) ?? 'rollback'
+        if (policy === 'retry' && attempt >= maxWriteAttempts) {
+          policy = 'rollback'
+        }
+        this.#emit({ type: 'error', error, messages: sent, policy })
+        if (policy === 'retry') {
+          await new Promise(resolve =>
+            setTimeout(resolve, backoffDelay(attempt, this.#opts.sync)),
+          )
+          if (this.#closed) {
+            return
+          }
+          continue
+        }
+        if (policy === 'rollback') {
+          this.#rollback(cells)
+        }
+        return
+      }
+    }
+  }
+
+  // Restore the cells to their previous values in mem, unless they were
+  // changed since, and remove the rows left without columns. This is done
+  // directly rather than through messages, which the message filter may drop.
+  // The indexes and the change listeners are then updated.
+  #rollback(cells: ReturnType<UndoManager['capture']>) {
+    if (this.#closed) {
+      return
+    }
+    const changes: Changes = {}
+    cells
+      .filter(c => dequal(this.mem[c.dataset]?.[c.row]?.[c.column], c.next))
+      .forEach(({ dataset, row, column, prev }) => {
+        const r = this.mem[dataset]?.[row]
+        if (!r) {
+          return
+        }
+        if (prev === undefined) {
+          delete r[column]
+        } else {
+          r[column] = prev
+        }
+        ;((changes[dataset] ??= {})[row] ??= {})[column] = prev
+      })
+    Object.entries(changes).forEach(([dataset, rows]) =>
+      Object.keys(rows).forEach(id => {
+        if (Object.keys(this.mem[dataset][id]).length === 0) {
+          delete this.mem[dataset][id]
+        }
+        this.indexRow(dataset, id)
+      }),
+    )
+    if (Object.keys(changes).length) {
+      this.#restored = changes
+      try {
+        this.#local.notifyChanges(changes)
+      } finally {
+        this.#restored = undefined
+      }
+    }
   }
 }
 
 export const initStore = <DB extends object>(opts: Opts): Promise<Store<DB>> =>
   // @ts-expect-error type bypass
   TheStore.new(opts)
+
+// Open the database as it is, if it exists.
+const openExistingDB = async (
+  name: string,
+): Promise<IDBPDatabase | undefined> => {
+  try {
+    return await openDB(name, undefined, {
+      upgrade: (_, __, ___, tx) => {
+        // opening rejects instead.
+        tx.done.catch(() => {})
+        tx.abort()
+      },
+    })
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') {
+      return
+    }
+    throw err
+  }
+}
+
+// List the namespaces in the database, in order of name.
+export const listNamespaces = async (dbName: string): Promise<string[]> => {
+  const db = await openExistingDB(dbName)
+  if (!db) {
+    return []
+  }
+  const suffix = `:${metaStoreName}`
+  const namespaces = [...db.objectStoreNames]
+    .filter(name => name.endsWith(suffix))
+    .map(name => name.slice(0, -suffix.length))
+  db.close()
+  return namespaces.sort()
+}
+
+// Delete a namespace, and all its data, from the database. Stores still using
+// it shut down with a deleted event. Like any upgrade, this closes the other
+// Stores on the database, unless they materialize rows or use a namespace.
+export const deleteNamespace = async (
+  dbName: string,
+  namespace: string,
+): Promise<void> => {
+  const prefix = namespacePrefix(namespace)
+  while (true) {
+    const db = await openExistingDB(dbName)
+    if (!db) {
+      return
+    }
+    const stores = [...db.objectStoreNames].filter(name =>
+      name.startsWith(prefix),
+    )
+    db.close()
+    if (stores.length === 0) {
+      return
+    }
+    try {
+      const upgraded = await openDB(dbName, db.version + 1, {
+        upgrade: upgrading =>
+          stores
+            .filter(name => upgrading.objectStoreNames.contains(name))
+            .forEach(name => upgrading.deleteObjectStore(name)),
+      })
+      upgraded.close()
+      return
+    } catch (err) {
+      // another connection bumped the version first, so try again.
+      if ((err as Error).name !== 'VersionError') {
+        throw err
+      }
+    }
+  }
+}
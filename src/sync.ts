@@ -0,0 +1,91 @@
+import { Clock, Timestamp } from '@daaku/kombat'
+import type { Local, Message } from '@daaku/kombat'
+import { kClock, newStoreNode, replicaNode } from './local.js'
+
+// SyncLocal is the Local handed to SyncDB by the Store. It follows the clock
+// SyncDB saves, so the Store can timestamp local writes and hand them to
+// SyncDB.recv, leaving it to the Store to decide when to sync. It also lets
+// messages already stored by another Store on the same database be received,
+// so they are applied and included in the merkle without being stored again.
+export class SyncLocal implements Local {
+  readonly #local: Local
+  #clock?: Clock
+  // the end of the node this Store writes with, as newStoreNode describes.
+  readonly #node = newStoreNode()
+  // messages stored by another Store, identified by object since SyncDB hands
+  // the same messages to each method.
+  readonly #storedElsewhere = new WeakSet<Message>()
+
+  constructor(local: Local) {
+    this.#local = local
+  }
+
+  // Assign timestamps to local writes in place, in the order given, made with
+  // the node of this Store. SyncDB must receive them right away, before it
+  // saves its clock again.
+  stamp(messages: Omit<Message, 'timestamp'>[]): Message[] {
+    const clock = this.#clock
+    if (!clock) {
+      throw new Error('clock has not been loaded')
+    }
+    const node = replicaNode(clock.timestamp.nodeID) + this.#node
+    return messages.map(msg => {
+      const { millis, counter } = clock.send()
+      const timestamp = new Timestamp(millis, counter, node).toJSON()
+      return Object.assign(msg, { timestamp })
+    })
+  }
+
+  // Mark messages as already stored by another Store, before receiving them.
+  storedElsewhere(messages: Message[]) {
+    messages.forEach(msg => this.#storedElsewhere.add(msg))
+  }
+
+  applyChanges(messages: Message[]): Promise<void> {
+    return this.#local.applyChanges(messages)
+  }
+
+  async storeMessages(messages: Message[]): Promise<boolean[]> {
+    const toStore = messages.filter(msg => !this.#storedElsewhere.has(msg))
+    const stored = toStore.length
+      ? await this.#local.storeMessages(toStore)
+      : []
+    return messages.map(
+      msg => this.#storedElsewhere.has(msg) || stored.shift()!,
+    )
+  }
+
+  queryMessages(since: string): Promise<Message[]> {
+    return this.#local.queryMessages(since)
+  }
+
+  // Messages stored elsewhere are only applied if they are still the latest.
+  async queryLatestMessages(
+    messages: Message[],
+  ): Promise<(Message | undefined)[]> {
+    const latest = await this.#local.queryLatestMessages(messages)
+    return latest.map((msg, i) =>
+      this.#storedElsewhere.has(messages[i]) &&
+      msg?.timestamp === messages[i].timestamp
+        ? undefined
+        : msg,
+    )
+  }
+
+  // The clock is followed as it is loaded and saved, which SyncDB does
+  // synchronously whenever it changes.
+  set(key: string, value: string): Promise<void> {
+    if (key === kClock) {
+      this.#clock = Clock.fromJSON(JSON.parse(value))
+    }
+    return this.#local.set(key, value)
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const value = await this.#local.get(key)
+    if (key === kClock && value !== undefined) {
+      this.#clock = Clock.fromJSON(JSON.parse(value))
+    }
+    return value
+  }
+}
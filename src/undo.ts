@@ -0,0 +1,159 @@
+import type { SyncDB } from '@daaku/kombat'
+import { dequal } from 'dequal'
+
+type Messages = Parameters<SyncDB['send']>[0]
+
+// A single cell changed by a local write, with the values before and after.
+interface Cell {
+  dataset: string
+  row: string
+  column: string
+  prev: unknown
+  next: unknown
+}
+
+// The parts of the store the UndoManager operates on.
+export interface UndoTarget {
+  mem: any
+  indexRow(dataset: string, id: string): void
+  send(messages: Messages): void
+}
+
+const cellKey = (c: { dataset: string; row: string; column: string }) =>
+  JSON.stringify([c.dataset, c.row, c.column])
+
+// UndoManager records groups of local writes, and undoes or redoes them by
+// sending compensating messages. Cells that have since been changed by someone
+// else, such as a concurrent remote write, are left alone.
+export class UndoManager {
+  readonly #target: UndoTarget
+  readonly #limit: number
+  #undo: Cell[][] = []
+  #redo: Cell[][] = []
+  #applying = false
+
+  constructor(target: UndoTarget, limit = 100) {
+    this.#target = target
+    this.#limit = limit
+  }
+
+  get canUndo(): boolean {
+    return this.#undo.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.#redo.length > 0
+  }
+
+  // Capture the cells the messages are about to change. This must be called
+  // before the in-memory data is updated.
+  capture(messages: Messages): Cell[] {
+    const cells = new Map<string, Cell>()
+    messages.forEach(({ dataset, row, column, value }) => {
+      // the id never changes, and is left behind on a deleted row.
+      if (column === 'id') {
+        return
+      }
+      const existing = this.#target.mem[dataset]?.[row]
+      // a newly created row is undone by deleting it.
+      if (!existing) {
+        const tombstone = { dataset, row, column: 'tombstone' }
+        if (!cells.has(cellKey(tombstone))) {
+          cells.set(cellKey(tombstone), {
+            ...tombstone,
+            prev: true,
+            next: undefined,
+          })
+        }
+      }
+      const key = cellKey({ dataset, row, column })
+      const cell = cells.get(key)
+      if (cell) {
+        cell.next = value
+      } else {
+        cells.set(key, {
+          dataset,
+          row,
+          column,
+          prev: existing?.[column],
+          next: value,
+        })
+      }
+    })
+    return [...cells.values()]
+  }
+
+  // Record a group of cells as a single undoable step. Cells changed multiple
+  // times are merged, keeping the first previous value and the last next value.
+  record(cells: Cell[]) {
+    if (this.#applying || cells.length === 0) {
+      return
+    }
+    const merged = new Map<string, Cell>()
+    cells.forEach(c => {
+      const existing = merged.get(cellKey(c))
+      if (existing) {
+        existing.next = c.next
+      } else {
+        merged.set(cellKey(c), { ...c })
+      }
+    })
+    this.#undo.push([...merged.values()])
+    if (this.#undo.length > this.#limit) {
+      this.#undo.shift()
+    }
+    this.#redo = []
+  }
+
+  // Undo the last group of local writes. Returns false if there was nothing to
+  // undo.
+  undo(): boolean {
+    return this.#move(this.#undo, this.#redo)
+  }
+
+  // Redo the last undone group of writes. Returns false if there was nothing to
+  // redo.
+  redo(): boolean {
+    return this.#move(this.#redo, this.#undo)
+  }
+
+  #move(from: Cell[][], to: Cell[][]): boolean {
+    const cells = from.pop()
+    if (!cells) {
+      return false
+    }
+    const mem = this.#target.mem
+    // only revert cells still holding the value we wrote.
+    const reverted = cells
+      .filter(c => dequal(mem[c.dataset]?.[c.row]?.[c.column], c.next))
+      .map(c => ({ ...c, prev: c.next, next: c.prev }))
+    if (reverted.length === 0) {
+      return true
+    }
+    this.#applying = true
+    try {
+      this.#target.send(
+        reverted.map(({ dataset, row, column, next }) => ({
+          dataset,
+          row,
+          column,
+          value: next,
+        })),
+      )
+    } finally {
+      this.#applying = false
+    }
+    reverted.forEach(({ dataset, row, column, next }) => {
+      const ds = (mem[dataset] ??= {})
+      const r = (ds[row] ??= { id: row })
+      if (next === undefined) {
+        delete r[column]
+      } else {
+        r[column] = next
+      }
+      this.#target.indexRow(dataset, row)
+    })
+    to.push(reverted)
+    return true
+  }
+}
@@ -0,0 +1,146 @@
+import QUnit from 'qunit'
+import { Clock, Message, Timestamp } from '@daaku/kombat'
+
+import { Changes, Conflict } from '../src/index.js'
+import { LocalMemory } from '../src/memory.js'
+
+const nodeID = 'e35dd11177e4cc2c'
+const at = (millis: number, node = nodeID) =>
+  new Timestamp(millis, 0, node).toJSON()
+
+const yodaName: Message = {
+  timestamp: at(1599729700000),
+  dataset: 'people',
+  row: 'yoda',
+  column: 'name',
+  value: 'Yoda',
+}
+
+const yodaAge: Message = {
+  timestamp: at(1599729800000),
+  dataset: 'people',
+  row: 'yoda',
+  column: 'age',
+  value: 900,
+}
+
+const yodaTombstone: Message = {
+  timestamp: at(1599729900000),
+  dataset: 'people',
+  row: 'yoda',
+  column: 'tombstone',
+  value: true,
+}
+
+QUnit.test('LocalMemory', async assert => {
+  const l = new LocalMemory()
+  const changes: Changes[] = []
+  l.listenChanges(c => changes.push(c))
+  await l.applyChanges([yodaName, yodaAge])
+  assert.deepEqual(
+    changes,
+    [{ people: { yoda: { name: 'Yoda', age: 900 } } }],
+    'expect changes',
+  )
+
+  assert.deepEqual(
+    await l.storeMessages([yodaAge, yodaName, yodaAge]),
+    [true, true, false],
+    'expect only new messages stored',
+  )
+  assert.deepEqual(
+    await l.queryMessages(yodaAge.timestamp),
+    [yodaAge],
+    'expect messages since',
+  )
+  const older = { ...yodaAge, timestamp: at(1599729750000), value: 800 }
+  await l.storeMessages([older])
+  assert.deepEqual(
+    await l.queryLatestMessages([older]),
+    [yodaAge],
+    'expect the latest to be kept',
+  )
+  assert.deepEqual(
+    await l.queryHistory('people', 'yoda', 'age'),
+    [older, yodaAge],
+    'expect history in order',
+  )
+
+  await l.set(
+    'clock',
+    JSON.stringify(new Clock(new Timestamp(1599729000000, 0, nodeID))),
+  )
+  const conflicts: Conflict[] = []
+  l.listenConflicts(c => conflicts.push(...c))
+  const late = { ...yodaAge, timestamp: at(1599729790000, 'a1b2c3d4e5f60718') }
+  await l.storeMessages([late])
+  assert.deepEqual(
+    conflicts,
+    [{ winner: yodaAge, loser: late }],
+    'expect late write to conflict',
+  )
+
+  await l.set('last_sync', at(1599730000000))
+  assert.equal(await l.get('last_sync'), at(1599730000000), 'expect meta')
+  const sizes = await l.queryStoreSizes()
+  assert.equal(await l.compact(at(1599730000000)), 2, 'expect older dropped')
+  assert.ok(
+    (await l.queryStoreSizes()).message_log < sizes.message_log,
+    'expect smaller log',
+  )
+  assert.deepEqual(
+    await l.storeMessages([older]),
+    [false],
+    'expect dropped message to still be known',
+  )
+
+  await l.storeMessages([yodaTombstone])
+  assert.deepEqual(
+    await l.purgeTombstones(at(1599730000000)),
+    [{ dataset: 'people', row: 'yoda' }],
+    'expect yoda purged',
+  )
+  const mem: any = {}
+  await l.loadDatasets(mem)
+  assert.deepEqual(mem, { people: {} }, 'expect purged row left out')
+})
+
+QUnit.test('LocalMemory: Persistence', async assert => {
+  let saved: string | undefined
+  const persistence = {
+    load: async () => saved,
+    save: async (snapshot: string) => {
+      saved = snapshot
+    },
+  }
+  const l = await LocalMemory.new(persistence)
+  await l.storeMessages([yodaName, yodaAge])
+  await l.set('last_sync', at(1599730000000))
+  await l.set('clock', JSON.stringify(new Clock()))
+  await l.flush()
+  assert.ok(saved, 'expect a snapshot')
+
+  const loaded = await LocalMemory.new(persistence)
+  assert.deepEqual(
+    await loaded.queryMessages(''),
+    [yodaName, yodaAge],
+    'expect messages loaded',
+  )
+  assert.equal(
+    await loaded.get('last_sync'),
+    at(1599730000000),
+    'expect meta loaded',
+  )
+  assert.equal(
+    await loaded.get('clock'),
+    await l.get('clock'),
+    'expect the clock to keep its node',
+  )
+  const mem: any = {}
+  await loaded.loadDatasets(mem)
+  assert.deepEqual(
+    mem,
+    { people: { yoda: { id: 'yoda', name: 'Yoda', age: 900 } } },
+    'expect latest values loaded',
+  )
+})
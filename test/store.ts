@@ -1,8 +1,23 @@
 import QUnit from 'qunit'
 import 'qunit/qunit/qunit.css'
-import { Remote, SyncRequest } from '@daaku/kombat'
-import { initStore, Store } from '../src/store.js'
-import { deleteDB } from 'idb'
+import { Message, Remote, SyncRequest, Timestamp } from '@daaku/kombat'
+import {
+  Codec,
+  defaultCodecs,
+  deleteNamespace,
+  initStore,
+  listNamespaces,
+  LiveResult,
+  maxWriteAttempts,
+  Migration,
+  Opts,
+  Store,
+  StoreEvent,
+  SyncStatus,
+  WriteErrorPolicy,
+} from '../src/store.js'
+import { LocalMemory } from '../src/memory.js'
+import { deleteDB, openDB } from 'idb'
 import { Changes } from '@daaku/kombat-indexed-db'
 
 interface Jedi {
@@ -31,6 +46,21 @@ const noOpRemote: Remote = {
   },
 }
 
+// Remote relaying the messages between replicas. Messages go through JSON, as
+// they would with a real Remote.
+const relayRemote = () => {
+  const relayed: Message[] = []
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      const sent = new Set(req.messages.map(msg => msg.timestamp))
+      const messages = relayed.filter(msg => !sent.has(msg.timestamp))
+      relayed.push(...JSON.parse(JSON.stringify(req.messages)))
+      return { merkle: req.merkle, messages }
+    },
+  }
+  return { remote, relayed }
+}
+
 declare global {
   interface Assert {
     id: string
@@ -235,3 +265,1473 @@ QUnit.test('Store: Multiple Changes', async assert => {
 
   await store.settle()
 })
+
+QUnit.test('Store: Query', async assert => {
+  const dbName = `${assert.id}_indexed`
+  await deleteDB(dbName)
+  const store = await initStore<DB>({
+    dbName,
+    remote: noOpRemote,
+    indexes: { jedi: ['age'] },
+  })
+  store.db.jedi.yoda = yoda
+  store.db.jedi.luke = { name: 'luke', age: 19 }
+  store.db.jedi.obiwan = { name: 'obiwan', age: 57 }
+  store.db.jedi.rey = { name: 'rey' }
+
+  const names = (rows: Jedi[]) => rows.map(r => r.name)
+  assert.deepEqual(
+    names(store.query('jedi', { where: { age: { gt: 20 } } })),
+    ['obiwan', 'yoda'],
+    'expect indexed range in age order',
+  )
+  assert.deepEqual(
+    names(store.query('jedi', { where: { age: { gt: 20 } }, orderBy: 'name' })),
+    ['obiwan', 'yoda'],
+    'expect ordered by name',
+  )
+  assert.deepEqual(
+    names(store.query('jedi', { orderBy: 'age', desc: true, limit: 3 })),
+    ['rey', 'yoda', 'obiwan'],
+    'expect missing values first when descending',
+  )
+  assert.deepEqual(
+    names(store.query('jedi', { where: { name: 'luke' } })),
+    ['luke'],
+    'expect unindexed column to be scanned',
+  )
+
+  store.db.jedi.luke.age = 60
+  delete store.db.jedi.obiwan
+  assert.deepEqual(
+    names(store.query('jedi', { where: { age: { gte: 19, lt: 900 } } })),
+    ['luke'],
+    'expect index to follow writes',
+  )
+
+  await store.settle()
+  store.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Watch', async assert => {
+  const store = assert.store
+  const { promise, resolve } = Promise.withResolvers<Changes>()
+  const unsubscribe = store.watch('jedi', 'yoda', 'age', resolve)
+  store.db.sith.vader = vader
+  store.db.jedi.yoda = yoda
+  assert.deepEqual(
+    await promise,
+    { jedi: { yoda: { age: yoda.age } } },
+    'expect only the watched column',
+  )
+  unsubscribe()
+})
+
+QUnit.test('RowProxy: nested objects and arrays', async assert => {
+  assert.store.close()
+  const store: Store<any> = (assert.store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    nested: true,
+  }))
+  const changes: Changes[] = []
+  store.listenChanges(c => changes.push(c))
+  store.db.jedi.yoda = {
+    name: 'yoda',
+    home: { planet: 'dagobah', hut: { rooms: 1 } },
+    tags: ['master'],
+  }
+  assert.equal(store.db.jedi.yoda.home.planet, 'dagobah', 'expect nested value')
+  assert.equal(store.db.jedi.yoda.home.hut.rooms, 1, 'expect deeply nested')
+  assert.deepEqual(store.db.jedi.yoda.tags, ['master'], 'expect array')
+  assert.throws(() => store.db.jedi.yoda.tags.push('old'), 'arrays are frozen')
+  assert.deepEqual(
+    Object.keys(store.db.jedi.yoda),
+    ['name', 'home', 'tags', 'id'],
+    'expect top level keys',
+  )
+  assert.true('home' in store.db.jedi.yoda, 'expect nested key to exist')
+
+  await store.settle()
+  store.db.jedi.yoda.home.planet = 'coruscant'
+  await store.settle()
+  store.db.jedi.yoda.home.hut = { beds: 2 }
+  await store.settle()
+  assert.propEqual(
+    store.db.jedi.yoda.home,
+    { planet: 'coruscant', hut: { beds: 2 } },
+    'expect replaced nested object',
+  )
+  delete store.db.jedi.yoda.home
+  assert.notOk(store.db.jedi.yoda.home, 'expect nested object deleted')
+  assert.throws(() => {
+    store.db.jedi.yoda['a.b'] = 1
+  }, /cannot use "."/)
+
+  await store.settle()
+  assert.deepEqual(
+    changes[changes.length - 3],
+    { jedi: { yoda: { 'home.planet': 'coruscant' } } },
+    'expect nested write to be a single column change',
+  )
+  assert.deepEqual(
+    changes[changes.length - 2],
+    { jedi: { yoda: { 'home.hut.beds': 2, 'home.hut.rooms': undefined } } },
+    'expect replaced nested object to drop missing columns',
+  )
+})
+
+QUnit.test('RowProxy: dotted columns and whole objects', async assert => {
+  let store: Store<any> = assert.store
+  store.db.jedi.yoda = {
+    name: 'yoda',
+    'home.planet': 'dagobah',
+    home: { hut: { rooms: 1 } },
+  }
+  const check = (msg: string) => {
+    assert.equal(store.db.jedi.yoda['home.planet'], 'dagobah', msg)
+    assert.deepEqual(
+      store.db.jedi.yoda.home,
+      { hut: { rooms: 1 } },
+      'expect object stored whole',
+    )
+    assert.deepEqual(
+      Object.keys(store.db.jedi.yoda).sort(),
+      ['home', 'home.planet', 'id', 'name'],
+      'expect dotted column as is',
+    )
+  }
+  check('expect dotted column')
+  assert.throws(() => {
+    store.db.jedi.yoda.home.hut.rooms = 2
+  }, 'objects are frozen')
+
+  await store.settle()
+  store.close()
+  store = assert.store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+  })
+  check('expect dotted column after reopening')
+  delete store.db.jedi.yoda['home.planet']
+  assert.deepEqual(
+    store.db.jedi.yoda.home,
+    { hut: { rooms: 1 } },
+    'expect only the dotted column deleted',
+  )
+})
+
+QUnit.test('Store: Batch', async assert => {
+  const store = assert.store
+  store.db.jedi.yoda = yoda
+  await store.settle()
+
+  const changes: Changes[] = []
+  store.listenChanges(c => changes.push(c))
+  store.batch(db => {
+    db.sith.vader = vader
+    db.jedi.yoda.age = 943
+    delete db.jedi.yoda
+  })
+  assert.propContains(store.db.sith.vader, vader, 'expect vader immediately')
+  await store.settle()
+  assert.deepEqual(
+    changes,
+    [
+      {
+        sith: { vader: { ...vader, id: 'vader' } },
+        jedi: { yoda: { age: 943, tombstone: true } },
+      },
+    ],
+    'expect a single change',
+  )
+
+  assert.throws(() => {
+    store.batch(db => {
+      db.jedi.luke = { name: 'luke' }
+      db.sith.vader.convert = false
+      throw new Error('abort')
+    })
+  }, /abort/)
+  assert.notOk(store.db.jedi.luke, 'expect luke to be rolled back')
+  assert.true(store.db.sith.vader.convert, 'expect vader to be rolled back')
+  await store.settle()
+  assert.equal(changes.length, 1, 'expect no changes from failed batch')
+
+  // writing through a row held after it was purged recreates it, and rolling
+  // back removes it again.
+  const held = store.db.sith.vader
+  delete store.db.sith.vader
+  await store.settle()
+  assert.equal(await store.purgeTombstones(Date.now() + 60000), 2)
+  assert.throws(() => {
+    store.batch(() => {
+      held.convert = false
+      throw new Error('abort')
+    })
+  }, /abort/)
+  assert.false('vader' in store.db.sith, 'expect no row left behind')
+})
+
+QUnit.test('Store: Schema', async assert => {
+  const dbName = `${assert.id}_schema`
+  await deleteDB(dbName)
+  const ts = (millis: number) => new Timestamp(millis, 0, 'remote').toJSON()
+  const incoming: Message[] = [
+    {
+      timestamp: ts(1),
+      dataset: 'jedi',
+      row: 'luke',
+      column: 'name',
+      value: 1,
+    },
+    { timestamp: ts(2), dataset: 'jedi', row: 'rey', column: 'name', value: 2 },
+    {
+      timestamp: ts(3),
+      dataset: 'jedi',
+      row: 'ben',
+      column: 'name',
+      value: 'ben',
+    },
+  ]
+  let sent = false
+  const invalid: string[] = []
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      const messages = sent ? [] : incoming
+      sent = true
+      return { merkle: req.merkle, messages }
+    },
+  }
+  const store = await initStore<DB>({
+    dbName,
+    remote,
+    schema: {
+      jedi: {
+        columns: {
+          name: { type: 'string', required: true },
+          age: { type: 'number', default: 0 },
+        },
+        strict: true,
+      },
+    },
+    onInvalid: msg => {
+      invalid.push(msg.row)
+      return msg.row === 'rey' ? 'quarantine' : 'drop'
+    },
+  })
+  await store.settle()
+  assert.deepEqual(
+    invalid.sort(),
+    ['luke', 'rey'],
+    'expect each message filtered once',
+  )
+
+  assert.equal(store.db.jedi.ben?.name, 'ben', 'expect valid message applied')
+  assert.notOk(store.db.jedi.luke, 'expect dropped message not applied')
+  assert.notOk(store.db.jedi.rey, 'expect quarantined message not applied')
+  assert.deepEqual(
+    await store.quarantined(),
+    [incoming[1]],
+    'expect quarantined message',
+  )
+
+  store.db.jedi.yoda = { name: 'yoda' }
+  assert.equal(store.db.jedi.yoda.age, 0, 'expect default value')
+  assert.throws(() => {
+    // @ts-expect-error checking for missing required column
+    store.db.jedi.obiwan = { age: 57 }
+  }, /missing required value/)
+  assert.throws(() => {
+    // @ts-expect-error checking for invalid type
+    store.db.jedi.yoda.age = 'old'
+  }, /expected value of type "number" but got "string"/)
+  assert.throws(() => {
+    // @ts-expect-error checking for required column deletion
+    delete store.db.jedi.yoda.name
+  }, /missing required value/)
+  assert.throws(() => {
+    // @ts-expect-error checking for unknown column
+    store.db.jedi.yoda.rank = 'master'
+  }, /unknown column/)
+  assert.deepEqual(
+    Object.keys(store.db.jedi).sort(),
+    ['ben', 'yoda'],
+    'expect invalid writes to not be applied',
+  )
+
+  await store.settle()
+  store.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Undo/Redo', async assert => {
+  // messages the Remote returns on the next sync.
+  const incoming: Message[] = []
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      return { merkle: req.merkle, messages: incoming.splice(0) }
+    },
+  }
+  assert.store.close()
+  const store = (assert.store = await initStore<DB>({
+    dbName: assert.id,
+    remote,
+    sync: { interval: 0, debounce: 0 },
+  }))
+  assert.false(store.canUndo, 'nothing to undo')
+  store.db.jedi.yoda = yoda
+  store.db.jedi.yoda.age = 943
+  store.batch(db => {
+    db.jedi.yoda.age = 944
+    db.jedi.yoda.name = 'master yoda'
+  })
+  assert.true(store.canUndo, 'expect undo')
+
+  assert.true(store.undo(), 'undo batch')
+  assert.propEqual(
+    store.db.jedi.yoda,
+    { ...yoda, id: 'yoda', age: 943 },
+    'expect batch to be undone',
+  )
+  assert.true(store.undo(), 'undo age')
+  assert.equal(store.db.jedi.yoda.age, 942, 'expect original age')
+  assert.true(store.canRedo, 'expect redo')
+  assert.true(store.redo(), 'redo age')
+  assert.equal(store.db.jedi.yoda.age, 943, 'expect redone age')
+  assert.true(store.undo(), 'undo age again')
+  assert.true(store.undo(), 'undo create')
+  assert.notOk(store.db.jedi.yoda, 'expect yoda to be gone')
+  assert.false(store.undo(), 'nothing left to undo')
+  assert.true(store.redo(), 'redo create')
+  assert.equal(store.db.jedi.yoda.name, 'yoda', 'expect yoda again')
+
+  store.db.jedi.yoda.age = 1000
+  assert.false(store.canRedo, 'expect new write to clear redo')
+  await store.settle()
+  // simulate a concurrent remote write that wins
+  incoming.push({
+    timestamp: new Timestamp(Date.now() + 1000, 0, 'remote').toJSON(),
+    dataset: 'jedi',
+    row: 'yoda',
+    column: 'age',
+    value: 5,
+  })
+  await store.resume()
+  assert.true(store.undo(), 'undo overwritten write')
+  assert.equal(store.db.jedi.yoda.age, 5, 'expect remote write to remain')
+})
+
+QUnit.test('Store: Cross Tab', async assert => {
+  const other = await initStore<DB>({ dbName: assert.id, remote: noOpRemote })
+  await other.settle()
+  const { promise, resolve } = Promise.withResolvers<Changes>()
+  const unsubscribe = other.listenChanges(resolve)
+  assert.store.db.jedi.yoda = yoda
+  assert.deepEqual(
+    await promise,
+    { jedi: { yoda: { ...yoda, id: 'yoda' } } },
+    'expect changes from the other store',
+  )
+  assert.equal(other.db.jedi.yoda.name, 'yoda', 'expect other store to be live')
+  unsubscribe()
+  await assert.store.settle()
+  await other.settle()
+
+  // writes made at the same time by both stores get their own timestamps.
+  const now = Date.now
+  const frozen = now()
+  Date.now = () => frozen
+  try {
+    assert.store.db.jedi.vader = vader
+    other.db.sith.vader = vader
+  } finally {
+    Date.now = now
+  }
+  await assert.store.settle()
+  await other.settle()
+  other.close()
+  const reopened = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+  })
+  assert.equal(reopened.db.jedi.vader.name, 'vader', 'expect first write')
+  assert.equal(reopened.db.sith.vader.name, 'vader', 'expect second write')
+  reopened.close()
+})
+
+QUnit.test('Store: Blocking', async assert => {
+  const store = assert.store
+  const events: StoreEvent[] = []
+  store.listenEvents(e => events.push(e))
+  await store.settle()
+  const db = await openDB(assert.id, 100)
+  db.close()
+  assert.deepEqual(events, [{ type: 'blocking' }], 'expect blocking event')
+  assert.throws(() => {
+    store.db.jedi.yoda = yoda
+  }, /store is closed/)
+})
+
+QUnit.test('Store: Export/Import Replica', async assert => {
+  const store = assert.store
+  store.db.jedi.yoda = yoda
+  await store.settle()
+  const exported = await new Response(
+    store.exportReplica().pipeThrough(new TextEncoderStream()),
+  ).text()
+
+  const dbName = `${assert.id}_import`
+  await deleteDB(dbName)
+  const other = await initStore<DB>({ dbName, remote: noOpRemote })
+  other.db.sith.vader = vader
+  await other.settle()
+  await other.importReplica(exported)
+  assert.deepEqual(
+    Object.keys(other.db).sort(),
+    ['jedi', 'sith'],
+    'expect merged datasets',
+  )
+  assert.equal(other.db.jedi.yoda.age, yoda.age, 'expect merged yoda')
+
+  const tab = await initStore<DB>({ dbName, remote: noOpRemote })
+  const reloaded = Promise.withResolvers<StoreEvent>()
+  tab.listenEvents(reloaded.resolve)
+  const events: StoreEvent[] = []
+  other.listenEvents(e => events.push(e))
+  await other.importReplica(exported, { replace: true })
+  assert.deepEqual(Object.keys(other.db), ['jedi'], 'expect replaced datasets')
+  assert.deepEqual(events, [{ type: 'replaced' }], 'expect replaced event')
+  assert.deepEqual(
+    await reloaded.promise,
+    { type: 'replaced' },
+    'expect other tabs to reload',
+  )
+  assert.deepEqual(Object.keys(tab.db), ['jedi'], 'expect tab replaced')
+
+  // the imported replica writes using its own node.
+  other.db.jedi.luke = { name: 'luke' }
+  await other.settle()
+  const [written] = await other.history('jedi', 'luke', 'name')
+  const [source] = await store.history('jedi', 'yoda', 'name')
+  assert.notEqual(written.nodeID, source.nodeID, 'expect a new node')
+
+  tab.close()
+  other.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Import Replica While Syncing', async assert => {
+  assert.store.db.jedi.yoda = yoda
+  await assert.store.settle()
+  const exported = await new Response(
+    assert.store.exportReplica().pipeThrough(new TextEncoderStream()),
+  ).text()
+  const [source] = await assert.store.history('jedi', 'yoda', 'name')
+
+  // syncs take a while, so one is running when the import starts.
+  const { remote } = relayRemote()
+  const slow: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      await new Promise(resolve => setTimeout(resolve, 10))
+      return remote.sync(req)
+    },
+  }
+  const dbName = `${assert.id}_import`
+  await deleteDB(dbName)
+  const opts: Opts = { dbName, remote: slow, sync: { interval: 5 } }
+  let store = await initStore<DB>(opts)
+  store.db.sith.vader = vader
+  await new Promise(resolve => setTimeout(resolve, 20))
+  const [before] = await store.history('sith', 'vader', 'name')
+  const importing = store.importReplica(exported, { replace: true })
+  assert.throws(
+    () => (store.db.jedi.luke = { name: 'luke' }),
+    /being replaced/,
+    'expect writes to throw while replacing',
+  )
+  await importing
+  await new Promise(resolve => setTimeout(resolve, 50))
+  await store.settle()
+  store.close()
+
+  // the new node was not overwritten by a sync running meanwhile.
+  store = await initStore<DB>(opts)
+  store.db.jedi.luke = { name: 'luke' }
+  await store.settle()
+  const [written] = await store.history('jedi', 'luke', 'name')
+  assert.notEqual(written.nodeID, source.nodeID, 'expect a new node')
+  assert.notEqual(written.nodeID, before.nodeID, 'expect the old node replaced')
+  store.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Lazy Load', async assert => {
+  assert.store.db.jedi.yoda = yoda
+  assert.store.db.sith.vader = vader
+  await assert.store.settle()
+  assert.store.close()
+
+  const store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    datasets: ['sith'],
+  })
+  assert.store = store
+  const events: StoreEvent[] = []
+  store.listenEvents(e => events.push(e))
+  assert.true(store.isLoaded('sith'), 'expect listed dataset loaded')
+  assert.equal(store.db.sith.vader.name, 'vader', 'expect vader loaded')
+  assert.false(store.isLoaded('jedi'), 'expect jedi not loaded')
+  assert.throws(
+    () => (store.db.jedi.luke = { name: 'luke' }),
+    /still loading/,
+    'expect writes to wait for the dataset',
+  )
+  await store.load('jedi')
+  assert.true(store.isLoaded('jedi'), 'expect jedi loaded')
+  assert.equal(store.db.jedi.yoda.name, 'yoda', 'expect yoda loaded')
+  assert.deepEqual(
+    events,
+    [{ type: 'loaded', dataset: 'jedi' }],
+    'expect loaded event',
+  )
+
+  // a failed load is reported, and can be tried again.
+  let fail = true
+  const local = new LocalMemory()
+  const loadDatasets = local.loadDatasets.bind(local)
+  local.loadDatasets = async (mem, datasets) => {
+    if (fail && datasets?.includes('jedi')) {
+      throw new Error('disk error')
+    }
+    await loadDatasets(mem, datasets)
+  }
+  const flaky = await initStore<DB>({
+    dbName: `${assert.id}_flaky`,
+    remote: noOpRemote,
+    local: () => local,
+    datasets: ['sith'],
+  })
+  const failed = Promise.withResolvers<StoreEvent>()
+  flaky.listenEvents(failed.resolve)
+  assert.notOk(flaky.db.jedi.yoda, 'expect jedi to start loading')
+  const event = await failed.promise
+  assert.equal(event.type, 'loadfailed', 'expect loadfailed event')
+  assert.equal(
+    event.type === 'loadfailed' && event.error.message,
+    'disk error',
+    'expect the error',
+  )
+  assert.false(flaky.isLoaded('jedi'), 'expect jedi not loaded')
+  fail = false
+  await flaky.load('jedi')
+  assert.true(flaky.isLoaded('jedi'), 'expect jedi loaded on retry')
+  flaky.db.jedi.luke = { name: 'luke' }
+  await flaky.settle()
+  flaky.close()
+})
+
+QUnit.test('Store: Materialize', async assert => {
+  assert.store.db.jedi.yoda = yoda
+  await assert.store.settle()
+  assert.store.close()
+
+  const store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    materialize: {},
+  })
+  assert.store = store
+  // another Store adding a row store bumps the version, and this one
+  // reconnects instead of shutting down.
+  const other = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    materialize: {},
+  })
+  other.db.sith.vader = vader
+  await other.settle()
+  store.db.jedi.luke = { name: 'luke' }
+  await store.settle()
+  store.close()
+  other.close()
+
+  const db = await openDB(assert.id)
+  assert.deepEqual(
+    await db.get('rows_jedi', 'yoda'),
+    { id: 'yoda', ...yoda },
+    'expect existing dataset materialized',
+  )
+  assert.deepEqual(
+    await db.get('rows_sith', 'vader'),
+    { id: 'vader', ...vader },
+    'expect new dataset materialized',
+  )
+  assert.deepEqual(
+    await db.get('rows_jedi', 'luke'),
+    { id: 'luke', name: 'luke' },
+    'expect write after reconnect materialized',
+  )
+  db.close()
+})
+
+QUnit.test('Store: Encryption', async assert => {
+  await assert.store.settle()
+  assert.store.close()
+  await deleteDB(assert.id)
+  const makeKey = () =>
+    crypto.subtle.importKey(
+      'raw',
+      crypto.getRandomValues(new Uint8Array(32)),
+      'HKDF',
+      false,
+      ['deriveKey'],
+    )
+  const encryption = { key: await makeKey() }
+  let store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    encryption,
+  })
+  assert.store = store
+  store.db.jedi.yoda = yoda
+  await store.settle()
+  const rotated = { key: await makeKey(), ids: true }
+  await store.rotateKey(rotated)
+  store.db.sith.vader = vader
+  await store.settle()
+  store.close()
+
+  store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    encryption: rotated,
+  })
+  assert.store = store
+  assert.equal(store.db.jedi.yoda.age, yoda.age, 'expect yoda decrypted')
+  assert.equal(store.db.sith.vader.name, vader.name, 'expect vader decrypted')
+  const db = await openDB(assert.id)
+  const latest = await db.getAll('message_latest')
+  db.close()
+  assert.false(
+    latest.some(msg => msg.row === 'yoda' || msg.value === yoda.name),
+    'expect nothing stored in plaintext',
+  )
+  const exported = (opts?: { plaintext?: boolean }) =>
+    new Response(
+      store.exportReplica(opts).pipeThrough(new TextEncoderStream()),
+    ).text()
+  await assert.rejects(
+    exported(),
+    /requires plaintext/,
+    'expect export to require plaintext',
+  )
+  assert.true(
+    (await exported({ plaintext: true })).includes(JSON.stringify(vader.name)),
+    'expect plaintext export',
+  )
+  await assert.rejects(
+    initStore<DB>({ dbName: assert.id, remote: noOpRemote, encryption }),
+    'expect the old key to fail',
+  )
+})
+
+QUnit.test('Store: Sync Scheduler', async assert => {
+  let syncs = 0
+  let failures = 2
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      syncs++
+      if (failures > 0) {
+        failures--
+        throw new Error('offline')
+      }
+      return { merkle: req.merkle, messages: [] }
+    },
+  }
+  const waitFor = async (check: () => boolean) => {
+    while (!check()) {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+  }
+  const store = await initStore<DB>({
+    dbName: `${assert.id}_scheduled`,
+    remote,
+    sync: { interval: 0, debounce: 10, backoff: 5, maxBackoff: 20 },
+  })
+  await waitFor(() => syncs === 3)
+  assert.equal(failures, 0, 'expect failed syncs to be retried')
+
+  store.pause()
+  store.db.jedi.yoda = yoda
+  await new Promise(resolve => setTimeout(resolve, 50))
+  assert.equal(syncs, 3, 'expect no sync while paused')
+  await store.resume()
+  assert.equal(syncs, 4, 'expect sync on resume')
+
+  store.db.jedi.luke = { name: 'luke' }
+  store.db.jedi.leia = { name: 'leia' }
+  await store.settle()
+  assert.equal(syncs, 5, 'expect a single debounced sync after writes')
+  store.close()
+  await deleteDB(`${assert.id}_scheduled`)
+})
+
+QUnit.test('Store: Sync Status', async assert => {
+  let offline = false
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      if (offline) {
+        throw new Error('offline')
+      }
+      return { merkle: req.merkle, messages: [] }
+    },
+  }
+  const dbName = `${assert.id}_status`
+  await deleteDB(dbName)
+  const store = await initStore<DB>({
+    dbName,
+    remote,
+    sync: { interval: 0, backoff: 60000 },
+  })
+  await store.settle()
+  assert.false(store.status.syncing, 'expect no sync in flight')
+  assert.ok(store.status.lastSync, 'expect last sync time')
+  assert.equal(store.status.unsynced, 0, 'expect nothing unsynced')
+
+  const statuses: SyncStatus[] = []
+  store.listenStatus(s => statuses.push(s))
+  offline = true
+  store.db.jedi.yoda = yoda
+  assert.equal(store.status.pending, 1, 'expect pending write')
+  assert.equal(statuses.length, 1, 'expect listener called')
+  await store.settle()
+  assert.equal(store.status.pending, 0, 'expect no pending writes')
+  assert.ok(
+    statuses.some(s => s.syncing),
+    'expect sync in flight',
+  )
+  assert.equal(store.status.lastError?.message, 'offline', 'expect error')
+  assert.equal(store.status.unsynced, 3, 'expect unsynced messages')
+
+  offline = false
+  await store.resume()
+  assert.equal(store.status.lastError, undefined, 'expect error cleared')
+  assert.equal(store.status.unsynced, 0, 'expect nothing unsynced')
+  store.close()
+
+  // without a scheduler, a failed initial sync is only reported.
+  offline = true
+  const unscheduled = await initStore<DB>({ dbName, remote })
+  await unscheduled.settle()
+  assert.equal(
+    unscheduled.status.lastError?.message,
+    'offline',
+    'expect initial sync error',
+  )
+  unscheduled.close()
+
+  // the messages stored while the status is refreshed share the next refresh.
+  const local = new LocalMemory()
+  const queryUnsynced = local.queryUnsynced.bind(local)
+  let scans = 0
+  local.queryUnsynced = () => {
+    scans++
+    return queryUnsynced()
+  }
+  const batched = await initStore<DB>({ dbName, remote, local: () => local })
+  await batched.settle()
+  scans = 0
+  for (let i = 0; i < 10; i++) {
+    batched.db.jedi[`yoda${i}`] = { ...yoda, id: `yoda${i}` }
+    await new Promise(resolve => setTimeout(resolve))
+  }
+  await batched.settle()
+  assert.equal(batched.status.unsynced, 30, 'expect every write counted')
+  assert.true(scans < 10, `expect refreshes to be shared, got ${scans}`)
+  batched.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Write Errors', async assert => {
+  await assert.store.settle()
+  assert.store.close()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    crypto.getRandomValues(new Uint8Array(32)),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  )
+  const policies: WriteErrorPolicy[] = ['retry', 'rollback']
+  let policy = (): WriteErrorPolicy => policies.shift() ?? 'ignore'
+  const store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    // values that can not be encrypted make the writes fail, such as bigints
+    // without a codec.
+    encryption: { key },
+    codecs: [],
+    schema: { jedi: { columns: { name: { required: true } } } },
+    onError: () => policy(),
+    sync: { interval: 0, backoff: 1, maxBackoff: 4 },
+  })
+  assert.store = store
+  const events: StoreEvent[] = []
+  store.listenEvents(e => events.push(e))
+  store.db.jedi.yoda = yoda
+  await store.settle()
+
+  // @ts-expect-error bigints can not be encrypted
+  store.db.jedi.yoda.age = 1n
+  store.db.jedi.luke = { name: 'luke' }
+  await store.settle()
+  assert.deepEqual(
+    events.map(e => e.type === 'error' && e.policy),
+    ['retry', 'rollback'],
+    'expect retried and then rolled back',
+  )
+  assert.equal(store.db.jedi.yoda.age, yoda.age, 'expect age rolled back')
+  assert.equal(store.db.jedi.luke.name, 'luke', 'expect other write kept')
+
+  // @ts-expect-error bigints can not be encrypted
+  store.db.jedi.leia = { name: 'leia', age: 1n }
+  await store.settle()
+  assert.equal(events.length, 3, 'expect another error event')
+  assert.equal(store.db.jedi.leia.age, 1n, 'expect ignored write kept')
+
+  policy = () => 'retry'
+  // @ts-expect-error bigints can not be encrypted
+  store.db.jedi.luke.age = 1n
+  await store.settle()
+  assert.deepEqual(
+    events.slice(3).map(e => e.type === 'error' && e.policy),
+    [...Array(maxWriteAttempts - 1).fill('retry'), 'rollback'],
+    'expect retries to give up by rolling back',
+  )
+  assert.equal(store.db.jedi.luke.age, undefined, 'expect age rolled back')
+
+  // rolling back a new row clears its required columns, and removes it.
+  policy = () => 'rollback'
+  // @ts-expect-error bigints can not be encrypted
+  store.db.jedi.han = { name: 'han', age: 1n }
+  await store.settle()
+  assert.equal(store.db.jedi.han, undefined, 'expect new row rolled back')
+  assert.false(
+    Object.keys(store.db.jedi).includes('han'),
+    'expect no empty row left behind',
+  )
+})
+
+QUnit.test('Store: Restore and Purge Tombstones', async assert => {
+  let store = assert.store
+  store.db.jedi.yoda = yoda
+  delete store.db.jedi.yoda
+  await store.restore('jedi', 'yoda')
+  assert.equal(store.db.jedi.yoda.name, 'yoda', 'expect restored yoda')
+  delete store.db.jedi.yoda
+  store.db.jedi.luke = { name: 'luke' }
+  await store.settle()
+  const other = await initStore<DB>({ dbName: assert.id, remote: noOpRemote })
+  assert.equal(
+    await store.purgeTombstones(Date.now() + 60000),
+    1,
+    'expect yoda purged',
+  )
+  assert.false('yoda' in store.db.jedi, 'expect yoda gone')
+  store.close()
+
+  // other stores on the database learn about the purge, so restoring yoda
+  // there only brings back the columns written since.
+  await new Promise(resolve => setTimeout(resolve, 50))
+  await other.restore('jedi', 'yoda')
+  await other.settle()
+  assert.equal(other.db.jedi.yoda.id, 'yoda', 'expect yoda restored')
+  assert.equal(other.db.jedi.yoda.name, undefined, 'expect no purged cells')
+  // rows that never existed are not created by restoring them.
+  await other.restore('jedi', 'ghost')
+  await other.settle()
+  assert.deepEqual(
+    Object.keys(other.db.jedi).sort(),
+    ['luke', 'yoda'],
+    'expect no row for an unknown id',
+  )
+  delete other.db.jedi.yoda
+  await other.settle()
+  other.close()
+
+  store = assert.store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+  })
+  assert.deepEqual(Object.keys(store.db.jedi), ['luke'], 'expect only luke')
+  store.db.jedi.yoda = yoda
+  await store.settle()
+  store.close()
+
+  store = assert.store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+  })
+  assert.equal(store.db.jedi.yoda.name, 'yoda', 'expect yoda recreated')
+})
+
+QUnit.test('Store: History', async assert => {
+  const store = assert.store
+  store.db.jedi.yoda = yoda
+  store.db.jedi.yoda.age = 901
+  store.db.jedi.yoda.age = 902
+  await store.settle()
+  const history = await store.history('jedi', 'yoda', 'age')
+  assert.deepEqual(
+    history.map(msg => msg.value),
+    [yoda.age, 901, 902],
+    'expect age history in order',
+  )
+  assert.true(
+    history.every(msg => msg.nodeID === history[0].nodeID),
+    'expect one node',
+  )
+  const columns = (await store.history('jedi', 'yoda')).map(msg => msg.column)
+  assert.deepEqual(
+    columns.slice().sort(),
+    ['age', 'age', 'age', 'id', 'name'],
+    'expect row history',
+  )
+  assert.deepEqual(columns.slice(-2), ['age', 'age'], 'expect updates last')
+})
+
+QUnit.test('Store: Live', async assert => {
+  const store = assert.store
+  const results: LiveResult<Jedi>[] = []
+  const unsubscribe = store.live(
+    'jedi',
+    { where: { age: { gt: 20 } }, orderBy: 'age' },
+    r => results.push(r),
+  )
+  assert.equal(results.length, 1, 'expect the current result immediately')
+  assert.deepEqual(results[0].ids, [], 'expect nothing yet')
+
+  store.db.jedi.yoda = yoda
+  store.db.jedi.luke = { name: 'luke', age: 19 }
+  await store.settle()
+  assert.deepEqual(
+    results.map(({ ids, added, removed, updated }) => ({
+      ids,
+      added,
+      removed,
+      updated,
+    })),
+    [
+      { ids: [], added: [], removed: [], updated: [] },
+      { ids: ['yoda'], added: ['yoda'], removed: [], updated: [] },
+    ],
+    'expect yoda added, and luke left out',
+  )
+  assert.equal(results[1].rows[0].name, 'yoda', 'expect rows')
+
+  store.db.jedi.luke.name = 'luke skywalker'
+  await store.settle()
+  assert.equal(results.length, 2, 'expect no result for rows outside it')
+
+  store.db.jedi.luke.age = 60
+  store.db.jedi.yoda.name = 'master yoda'
+  await store.settle()
+  assert.deepEqual(
+    results.slice(2).map(({ ids, added, removed, updated }) => ({
+      ids,
+      added,
+      removed,
+      updated,
+    })),
+    [
+      { ids: ['luke', 'yoda'], added: ['luke'], removed: [], updated: [] },
+      { ids: ['luke', 'yoda'], added: [], removed: [], updated: ['yoda'] },
+    ],
+    'expect luke added, then yoda updated',
+  )
+
+  delete store.db.jedi.yoda
+  await store.settle()
+  assert.deepEqual(
+    results.at(-1)?.removed,
+    ['yoda'],
+    'expect deleted yoda removed',
+  )
+
+  unsubscribe()
+  store.db.jedi.obiwan = { name: 'obiwan', age: 57 }
+  await store.settle()
+  assert.equal(results.length, 5, 'expect no results after unsubscribe')
+})
+
+QUnit.test('Store: Conflicts', async assert => {
+  let incoming: Message[] = []
+  const remote: Remote = {
+    async sync(req: SyncRequest): Promise<SyncRequest> {
+      const messages = incoming
+      incoming = []
+      return { merkle: req.merkle, messages }
+    },
+  }
+  const remoteNodeID = 'a1b2c3d4e5f60718'
+  const dbName = `${assert.id}_conflicts`
+  await deleteDB(dbName)
+  const store = await initStore<DB>({ dbName, remote })
+  await store.settle()
+  const events: StoreEvent[] = []
+  store.listenEvents(e => events.push(e))
+
+  store.db.jedi.yoda = yoda
+  incoming = [
+    {
+      timestamp: new Timestamp(Date.now() + 60000, 0, remoteNodeID).toJSON(),
+      dataset: 'jedi',
+      row: 'yoda',
+      column: 'age',
+      value: 900,
+    },
+  ]
+  await store.settle()
+  assert.equal(store.db.jedi.yoda.age, 900, 'expect remote write to win')
+  const conflict = events.find(e => e.type === 'conflict')
+  assert.deepEqual(
+    conflict?.type === 'conflict' && [
+      conflict.winner.nodeID,
+      conflict.winner.value,
+      conflict.loser.value,
+    ],
+    [remoteNodeID, 900, yoda.age],
+    'expect conflict with the overwritten local write',
+  )
+  store.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: LocalMemory', async assert => {
+  const local = new LocalMemory()
+  let store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    local: () => local,
+  })
+  store.db.jedi.yoda = yoda
+  store.db.jedi.luke = { name: 'luke', age: 19 }
+  delete store.db.jedi.luke
+  assert.deepEqual(
+    store.query('jedi').map(r => r.name),
+    ['yoda'],
+    'expect query to work',
+  )
+  await store.settle()
+  store.close()
+
+  store = await initStore<DB>({
+    dbName: assert.id,
+    remote: noOpRemote,
+    local: () => local,
+  })
+  assert.equal(store.db.jedi.yoda.age, yoda.age, 'expect yoda loaded')
+  assert.false('luke' in store.db.jedi, 'expect luke deleted')
+  assert.equal(
+    (await store.history('jedi', 'yoda', 'name')).length,
+    1,
+    'expect history',
+  )
+  await store.settle()
+  store.close()
+})
+
+QUnit.test('Store: Migrations', async assert => {
+  const dbName = `${assert.id}_migrations`
+  await deleteDB(dbName)
+  let store = await initStore<DB>({ dbName, remote: noOpRemote })
+  store.db.jedi.yoda = yoda
+  store.db.jedi.luke = { name: 'luke' }
+  await store.settle()
+  store.close()
+
+  let runs = 0
+  const migrations: Migration[] = [
+    { version: 1, upgrade: db => db.createObjectStore('settings') },
+    {
+      version: 2,
+      data: rows => {
+        runs++
+        return Object.values(rows.jedi ?? {})
+          .filter(row => 'age' in row)
+          .flatMap(row => [
+            {
+              dataset: 'jedi',
+              row: row.id as string,
+              column: 'years',
+              value: row.age,
+            },
+            {
+              dataset: 'jedi',
+              row: row.id as string,
+              column: 'age',
+              value: undefined,
+            },
+          ])
+      },
+    },
+  ]
+  const open = () => initStore<any>({ dbName, remote: noOpRemote, migrations })
+  let migrated = await open()
+  assert.equal(migrated.db.jedi.yoda.years, yoda.age, 'expect column renamed')
+  assert.equal(migrated.db.jedi.yoda.age, undefined, 'expect age cleared')
+  assert.false('years' in migrated.db.jedi.luke, 'expect luke left alone')
+  await migrated.settle()
+  migrated.close()
+
+  migrated = await open()
+  assert.equal(runs, 1, 'expect data migrated once')
+  await migrated.settle()
+  migrated.close()
+  const db = await openDB(dbName)
+  assert.true(db.objectStoreNames.contains('settings'), 'expect store created')
+  db.close()
+
+  await assert.rejects(
+    initStore<DB>({
+      dbName,
+      remote: noOpRemote,
+      migrations: [{ version: 2 }, { version: 1 }],
+    }),
+    /increasing/,
+    'expect versions to be validated',
+  )
+  await deleteDB(dbName)
+
+  // replicas sync before migrating, so cells another replica already migrated
+  // are not written again with newer timestamps.
+  const { remote, relayed } = relayRemote()
+  const stale = new LocalMemory()
+  const before = await initStore<DB>({ dbName, remote, local: () => stale })
+  before.db.jedi.yoda = yoda
+  await before.settle()
+  before.close()
+  const first = await initStore<any>({
+    dbName,
+    remote,
+    migrations,
+    local: () => new LocalMemory(),
+  })
+  await first.settle()
+  first.close()
+  const written = () => new Set(relayed.map(msg => msg.timestamp)).size
+  const count = written()
+  const second = await initStore<any>({
+    dbName,
+    remote,
+    migrations,
+    local: () => stale,
+  })
+  await second.settle()
+  assert.equal(second.db.jedi.yoda.years, yoda.age, 'expect migrated cells')
+  assert.equal(written(), count, 'expect nothing migrated again')
+  second.close()
+})
+
+QUnit.test('Store: Namespaces', async assert => {
+  const dbName = `${assert.id}_namespaces`
+  await deleteDB(dbName)
+  assert.deepEqual(await listNamespaces(dbName), [], 'expect no namespaces')
+  const open = (namespace: string) =>
+    initStore<DB>({ dbName, remote: noOpRemote, namespace })
+  const a = await open('a')
+  const b = await open('b')
+  a.db.jedi.yoda = yoda
+  b.db.jedi.luke = { name: 'luke' }
+  await a.settle()
+  await b.settle()
+  assert.deepEqual(Object.keys(a.db.jedi), ['yoda'], 'expect only yoda in a')
+  assert.deepEqual(Object.keys(b.db.jedi), ['luke'], 'expect only luke in b')
+  a.close()
+  b.close()
+
+  assert.deepEqual(
+    await listNamespaces(dbName),
+    ['a', 'b'],
+    'expect both namespaces',
+  )
+  const reopened = await open('b')
+  assert.equal(reopened.db.jedi.luke.name, 'luke', 'expect b reloaded')
+  await reopened.settle()
+  reopened.close()
+
+  await deleteNamespace(dbName, 'a')
+  assert.deepEqual(await listNamespaces(dbName), ['b'], 'expect a deleted')
+  const recreated = await open('a')
+  assert.deepEqual(Object.keys(recreated.db.jedi), [], 'expect a to be empty')
+  await recreated.settle()
+
+  // stores still using a deleted namespace shut down instead of recreating it.
+  const deleted = new Promise<StoreEvent>(resolve =>
+    recreated.listenEvents(resolve),
+  )
+  await deleteNamespace(dbName, 'a')
+  assert.deepEqual(await deleted, { type: 'deleted' }, 'expect deleted event')
+  assert.deepEqual(
+    await listNamespaces(dbName),
+    ['b'],
+    'expect a not recreated',
+  )
+  recreated.close()
+
+  await assert.rejects(open('a:b'), /invalid namespace/, 'expect no colons')
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Quota', async assert => {
+  await assert.store.settle()
+  assert.store.close()
+  const estimate = { usage: 50, quota: 100 }
+  Object.defineProperty(navigator, 'storage', {
+    configurable: true,
+    value: {
+      estimate: async () => ({ ...estimate }),
+      persist: async () => true,
+    },
+  })
+  try {
+    const store = await initStore<DB>({
+      dbName: assert.id,
+      remote: noOpRemote,
+      quota: { policy: 'reject', recheckInterval: 0 },
+    })
+    assert.store = store
+    const events: StoreEvent[] = []
+    store.listenEvents(e => events.push(e))
+    store.db.jedi.yoda = yoda
+    await store.settle()
+    const usage = await store.storageUsage()
+    assert.equal(usage.usage, 50, 'expect usage')
+    assert.equal(usage.quota, 100, 'expect quota')
+    assert.ok(usage.stores.message_log > 0, 'expect log size')
+    assert.ok(usage.stores.message_latest > 0, 'expect latest size')
+    assert.ok(usage.stores.message_meta > 0, 'expect meta size')
+    assert.true(await store.requestPersistence(), 'expect persisted')
+
+    estimate.usage = 95
+    store.db.jedi.luke = { name: 'luke' }
+    await store.settle()
+    assert.deepEqual(
+      events,
+      [{ type: 'quotaexceeded', usage: 95, quota: 100, policy: 'reject' }],
+      'expect quota exceeded event',
+    )
+    assert.throws(
+      () => (store.db.jedi.leia = { name: 'leia' }),
+      /storage quota exceeded/,
+      'expect writes rejected',
+    )
+    assert.equal(store.db.jedi.leia, undefined, 'expect nothing written')
+
+    estimate.usage = 10
+    assert.throws(
+      () => (store.db.jedi.leia = { name: 'leia' }),
+      /storage quota exceeded/,
+      'expect writes rejected until checked again',
+    )
+    await store.settle()
+    store.db.jedi.leia = { name: 'leia' }
+    assert.equal(store.db.jedi.leia.name, 'leia', 'expect writes accepted')
+    await store.settle()
+    store.close()
+
+    // compacting drops the synced messages shadowed by newer ones.
+    const compacting = await initStore<DB>({
+      dbName: assert.id,
+      remote: noOpRemote,
+      quota: {},
+    })
+    assert.store = compacting
+    compacting.db.jedi.yoda.age = 943
+    await compacting.settle()
+    assert.equal(
+      (await compacting.history('jedi', 'yoda', 'age')).length,
+      2,
+      'expect both ages',
+    )
+    estimate.usage = 90
+    await compacting.storageUsage()
+    assert.equal(
+      (await compacting.history('jedi', 'yoda', 'age')).length,
+      2,
+      'expect nothing compacted by checking the usage',
+    )
+    compacting.db.jedi.luke.age = 19
+    await compacting.settle()
+    assert.equal(
+      (await compacting.history('jedi', 'yoda', 'age')).length,
+      1,
+      'expect older age compacted',
+    )
+  } finally {
+    // @ts-expect-error restoring the storage of the navigator
+    delete navigator.storage
+  }
+})
+
+QUnit.test('Store: Codecs', async assert => {
+  interface Launch {
+    name: string
+    at: Date
+    count: bigint
+    payload: Uint8Array
+    delays: Date[]
+  }
+  interface LaunchDB {
+    launches: Record<string, Launch>
+  }
+  const { remote, relayed } = relayRemote()
+  const dbName = `${assert.id}_codecs`
+  await deleteDB(dbName)
+  // codec values are typed by the tag of their codec, and can be queried.
+  const opts: Opts = {
+    dbName,
+    remote,
+    schema: {
+      launches: {
+        columns: {
+          at: { type: 'date' },
+          count: { type: 'bigint' },
+          payload: { type: 'bytes' },
+        },
+      },
+    },
+    indexes: { launches: ['at'] },
+  }
+  let a = await initStore<LaunchDB>(opts)
+  a.db.launches.apollo = {
+    name: 'apollo',
+    at: new Date(0),
+    count: 2n ** 70n,
+    payload: Uint8Array.of(1, 2, 3),
+    delays: [new Date(1000)],
+  }
+  await a.settle()
+  assert.ok(a.db.launches.apollo.at instanceof Date, 'expect a date')
+  assert.throws(
+    () => (a.db.launches.apollo.at = 0 as unknown as Date),
+    /expected value of type "date" but got "number"/,
+    'expect dates to be validated',
+  )
+  const names = (rows: Launch[]) => rows.map(r => r.name)
+  assert.deepEqual(
+    names(a.query('launches', { where: { at: new Date(0) } })),
+    ['apollo'],
+    'expect dates to be queried by their time',
+  )
+  assert.deepEqual(
+    names(a.query('launches', { where: { at: { gt: new Date(0) } } })),
+    [],
+    'expect dates to be compared by their time',
+  )
+  assert.deepEqual(
+    names(a.query('launches', { where: { count: { gte: 2n ** 70n } } })),
+    ['apollo'],
+    'expect bigints to be compared',
+  )
+  a.db.launches.apollo.at.setTime(5)
+  assert.equal(
+    a.db.launches.apollo.at.getTime(),
+    0,
+    'expect a copy of the date',
+  )
+
+  const b = await initStore<LaunchDB>({
+    ...opts,
+    local: () => new LocalMemory(),
+    onInvalid: () => 'quarantine',
+  })
+  await b.settle()
+  assert.deepEqual(await b.quarantined(), [], 'expect decoded values validated')
+  const apollo = b.db.launches.apollo
+  assert.ok(apollo.at instanceof Date, 'expect a date on the other replica')
+  assert.equal(apollo.at.getTime(), 0, 'expect the same date')
+  assert.true(apollo.count === 2n ** 70n, 'expect the same bigint')
+  assert.deepEqual(apollo.payload, Uint8Array.of(1, 2, 3), 'expect the bytes')
+  assert.equal(apollo.delays[0].getTime(), 1000, 'expect dates in arrays')
+  const [entry] = await b.history('launches', 'apollo', 'at')
+  assert.ok(entry.value instanceof Date, 'expect history decoded')
+  b.close()
+
+  a.close()
+  relayed.length = 0
+  a = await initStore<LaunchDB>(opts)
+  assert.equal(
+    a.db.launches.apollo.at.getTime(),
+    0,
+    'expect the date loaded again',
+  )
+  await a.settle()
+  a.close()
+  await deleteDB(dbName)
+})
+
+QUnit.test('Store: Custom Codecs', async assert => {
+  class Money {
+    constructor(
+      readonly cents: number,
+      readonly currency: string,
+    ) {}
+    get dollars() {
+      return this.cents / 100
+    }
+  }
+  const moneyCodec: Codec<Money> = {
+    tag: 'money',
+    is: v => v instanceof Money,
+    encode: v => [v.cents, v.currency],
+    decode: e => {
+      const [cents, currency] = e as [number, string]
+      return new Money(cents, currency)
+    },
+  }
+  interface Item {
+    name: string
+    price: Money
+    history?: Money[]
+  }
+  interface ShopDB {
+    items: Record<string, Item>
+  }
+  const { remote } = relayRemote()
+  const opts: Opts = {
+    dbName: assert.id,
+    remote,
+    local: () => new LocalMemory(),
+    codecs: [...defaultCodecs, moneyCodec],
+    schema: { items: { columns: { price: { type: 'money' } } } },
+  }
+  const a = await initStore<ShopDB>(opts)
+  a.db.items.hat = { name: 'hat', price: new Money(1250, 'USD') }
+  assert.ok(a.db.items.hat.price instanceof Money, 'expect the class kept')
+  assert.equal(a.db.items.hat.price.dollars, 12.5, 'expect a working instance')
+  assert.deepEqual(
+    Object.keys(a.db.items.hat).sort(),
+    ['id', 'name', 'price'],
+    'expect the value stored whole',
+  )
+  a.db.items.hat.history = [new Money(1000, 'USD')]
+  assert.ok(a.db.items.hat.history![0] instanceof Money, 'expect in arrays')
+  a.db.items.hat.price = new Money(1500, 'USD')
+  assert.throws(
+    () => (a.db.items.hat.price = 1500 as unknown as Money),
+    /expected value of type "money" but got "number"/,
+    'expect the schema type to be checked',
+  )
+  await a.settle()
+
+  const b = await initStore<ShopDB>(opts)
+  await b.settle()
+  assert.ok(b.db.items.hat.price instanceof Money, 'expect decoded remotely')
+  assert.equal(b.db.items.hat.price.cents, 1500, 'expect the latest price')
+  b.close()
+  a.close()
+})
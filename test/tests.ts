@@ -1,17 +1,21 @@
 import QUnit from 'qunit'
 import 'qunit/qunit/qunit.css'
-import { Message, Timestamp } from '@daaku/kombat'
+import { Clock, Merkle, Message, Timestamp } from '@daaku/kombat'
 import { deleteDB, IDBPDatabase, openDB } from 'idb'
 import { customAlphabet } from 'nanoid'
 
 import {
   Changes,
+  Codecs,
+  Conflict,
+  defaultCodecs,
   loadDatasetMem,
   LocalIndexedDB,
   syncDatasetIndexedDB,
   syncDatasetMem,
 } from '../src/index.js'
 
+import './memory.js'
 import './store.js'
 
 // @ts-ignore
@@ -67,9 +71,9 @@ interface Created {
 async function createDB(
   prefix: string,
   upgradeDB?: (db: IDBPDatabase) => void,
+  l = new LocalIndexedDB(),
 ): Promise<Created> {
   const name = makeName(prefix)
-  const l = new LocalIndexedDB()
   const db = await openDB(name, 1, {
     upgrade: db => {
       l.upgradeDB(db)
@@ -148,6 +152,308 @@ QUnit.test('Store/Query Latest', async assert => {
   await cleanUp()
 })
 
+QUnit.test('Compact', async assert => {
+  const { l, cleanUp } = await createDB('compact')
+  await l.storeMessages([yodaNameMessage, yodaAge900Message, yodaAge950Message])
+  assert.equal(
+    await l.compact(yodaAge950Message.timestamp),
+    0,
+    'nothing dropped before the first sync',
+  )
+  await l.set('last_sync', yodaAge950Message.timestamp)
+  assert.equal(
+    await l.compact(new Timestamp(1699729900000, 0, nodeID).toJSON()),
+    1,
+    'expect shadowed message to be dropped',
+  )
+  assert.deepEqual(
+    await l.queryMessages(''),
+    [yodaNameMessage, yodaAge950Message],
+    'expect latest messages to remain',
+  )
+  assert.deepEqual(
+    await l.queryMessages(yodaAge950Message.timestamp),
+    [yodaAge950Message],
+    'expect messages after the horizon to remain',
+  )
+  assert.deepEqual(
+    await l.storeMessages([yodaAge900Message]),
+    [false],
+    'expect dropped message to still be known',
+  )
+  const exported = await new Response(
+    l.exportReplica().pipeThrough(new TextEncoderStream()),
+  ).text()
+  assert.ok(
+    exported.includes(
+      JSON.stringify({ compacted: yodaAge900Message.timestamp }),
+    ),
+    'expect dropped message exported as compacted',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Query Unsynced', async assert => {
+  const { l, cleanUp } = await createDB('query_unsynced')
+  await l.set('clock', JSON.stringify(new Clock(new Timestamp(0, 0, nodeID))))
+  const remote: Message = {
+    ...yodaAge950Message,
+    timestamp: new Timestamp(1599729950000, 0, 'other').toJSON(),
+  }
+  // written by another Store of this replica, such as in another tab.
+  const otherStore: Message = {
+    ...yodaAge950Message,
+    timestamp: new Timestamp(
+      1599729960000,
+      0,
+      nodeID.slice(0, -4) + 'abcd',
+    ).toJSON(),
+  }
+  await l.storeMessages([
+    yodaNameMessage,
+    yodaAge900Message,
+    remote,
+    otherStore,
+  ])
+  await l.set('last_sync', yodaAge900Message.timestamp)
+  assert.deepEqual(
+    await l.queryUnsynced(),
+    { lastSync: yodaAge900Message.timestamp, count: 2 },
+    'expect only messages written locally since the last sync',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Purge Tombstones', async assert => {
+  const { l, db, cleanUp } = await createDB('purge_tombstones')
+  const at = (millis: number) => new Timestamp(millis, 0, nodeID).toJSON()
+  const yodaTombstoneMessage: Message = {
+    timestamp: at(1599730000000),
+    dataset: 'people',
+    row: yodaID,
+    column: 'tombstone',
+    value: true,
+  }
+  await l.storeMessages([
+    yodaNameMessage,
+    yodaAge900Message,
+    yodaTombstoneMessage,
+    falconNameMessage,
+  ])
+  await l.set('last_sync', at(1599730100000))
+  assert.deepEqual(
+    await l.purgeTombstones(at(1699730000000)),
+    [{ dataset: 'people', row: yodaID }],
+    'expect yoda purged',
+  )
+  const mem: any = {}
+  await loadDatasetMem(mem, db, '')
+  assert.deepEqual(mem.people, {}, 'expect purged row left out')
+
+  const late = { ...yodaAge950Message, timestamp: at(1599729950000) }
+  assert.deepEqual(
+    await l.queryLatestMessages([late]),
+    [yodaTombstoneMessage],
+    'expect tombstone to stand in for purged cells',
+  )
+  await l.storeMessages([late])
+  const changes: Changes[] = []
+  l.listenChanges(c => changes.push(c))
+  const newer = { ...yodaAge950Message, timestamp: at(1599730200000) }
+  await l.applyChanges([newer])
+  await l.storeMessages([newer])
+  assert.deepEqual(
+    changes,
+    [{ people: { [yodaID]: { age: 950, tombstone: true } } }],
+    'expect newer change to keep the row deleted',
+  )
+  assert.equal(
+    await l.compact(at(1699730000000)),
+    3,
+    'expect messages older than the tombstone dropped',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Conflicts', async assert => {
+  const { l, cleanUp } = await createDB('conflicts')
+  const setClock = (millis: number) =>
+    l.set('clock', JSON.stringify(new Clock(new Timestamp(millis, 0, nodeID))))
+  await setClock(1599729000000)
+  const conflicts: Conflict[] = []
+  l.listenConflicts(c => conflicts.push(...c))
+  const at = (msg: Message, millis: number, node = 'other'): Message => ({
+    ...msg,
+    timestamp: new Timestamp(millis, 0, node).toJSON(),
+  })
+  const late = at(yodaAge900Message, 1599729850000)
+  const newer = at(yodaAge900Message, 1599729950000)
+  await l.storeMessages([yodaAge950Message])
+  await l.storeMessages([late])
+  await l.storeMessages([newer])
+  await l.storeMessages([at(yodaAge900Message, 1599729960000, 'third')])
+  assert.deepEqual(
+    conflicts,
+    [
+      { winner: yodaAge950Message, loser: late },
+      { winner: newer, loser: yodaAge950Message },
+    ],
+    'expect late and unsynced writes to conflict, but not remote ones',
+  )
+
+  await l.set('last_sync', new Timestamp(1599730000000, 0, nodeID).toJSON())
+  await l.storeMessages([
+    at(yodaAge950Message, 1599729990000, nodeID),
+    at(yodaNameMessage, 1599729650000, nodeID),
+  ])
+  await l.storeMessages([at(yodaAge900Message, 1599730150000)])
+  assert.equal(conflicts.length, 2, 'expect synced and own writes not to')
+
+  // a local write made before a remote one was received.
+  await setClock(1599730300000)
+  const remote = at(yodaAge900Message, 1599730200000)
+  await l.storeMessages([remote])
+  const local = at(yodaAge950Message, 1599730250000, nodeID)
+  await l.storeMessages([local])
+  assert.deepEqual(
+    conflicts.slice(2),
+    [{ winner: local, loser: remote }],
+    'expect write made before receiving to conflict',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Query History', async assert => {
+  const { l, cleanUp } = await createDB('query_history')
+  await l.storeMessages([
+    yodaAge950Message,
+    falconNameMessage,
+    yodaNameMessage,
+    yodaAge900Message,
+  ])
+  assert.deepEqual(
+    await l.queryHistory('people', yodaID, 'age'),
+    [yodaAge900Message, yodaAge950Message],
+    'expect cell history in timestamp order',
+  )
+  assert.deepEqual(
+    await l.queryHistory('people', yodaID),
+    [yodaNameMessage, yodaAge900Message, yodaAge950Message],
+    'expect row history in timestamp order',
+  )
+  assert.deepEqual(
+    await l.queryHistory('people', falconID),
+    [],
+    'expect no history for another dataset',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Snapshot At', async assert => {
+  const { l, cleanUp } = await createDB('snapshot_at')
+  await l.storeMessages([
+    falconNameMessage,
+    yodaNameMessage,
+    yodaAge900Message,
+    yodaAge950Message,
+  ])
+  assert.deepEqual(
+    await l.snapshotAt(yodaAge900Message.timestamp),
+    {
+      spaceship: { [falconID]: { id: falconID, name: 'Falcon' } },
+      people: { [yodaID]: { id: yodaID, name: 'Yoda', age: 900 } },
+    },
+    'expect rows as of the timestamp',
+  )
+  assert.deepEqual(
+    await l.snapshotAt(yodaAge950Message.timestamp, ['people']),
+    { people: { [yodaID]: { id: yodaID, name: 'Yoda', age: 950 } } },
+    'expect only the requested datasets',
+  )
+  assert.deepEqual(
+    await l.snapshotAt(new Timestamp(0, 0, nodeID).toJSON()),
+    {},
+    'expect nothing before the first message',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Export/Import Replica', async assert => {
+  const source = await createDB('export_replica')
+  await source.l.storeMessages([yodaNameMessage, yodaAge900Message])
+  await source.l.set('clock', JSON.stringify(new Clock()))
+  const exported = await new Response(
+    source.l.exportReplica().pipeThrough(new TextEncoderStream()),
+  ).text()
+  assert.equal(exported.trim().split('\n').length, 4, 'expect header, meta, 2')
+
+  const replaced = await createDB('import_replace')
+  await replaced.l.storeMessages([falconNameMessage])
+  assert.equal(
+    await replaced.l.importReplica(exported, { replace: true }),
+    2,
+    'expect both messages stored',
+  )
+  assert.deepEqual(
+    await replaced.l.queryMessages(''),
+    [yodaNameMessage, yodaAge900Message],
+    'expect only the replica messages',
+  )
+  const sourceClock = Clock.fromJSON(JSON.parse((await source.l.get('clock'))!))
+  const replacedClock = Clock.fromJSON(
+    JSON.parse((await replaced.l.get('clock'))!),
+  )
+  assert.equal(
+    replacedClock.timestamp.millis,
+    sourceClock.timestamp.millis,
+    'expect the clock to be restored',
+  )
+  assert.equal(
+    replacedClock.merkle.diff(sourceClock.merkle),
+    undefined,
+    'expect the merkle to be restored',
+  )
+  assert.notEqual(
+    replacedClock.timestamp.nodeID,
+    sourceClock.timestamp.nodeID,
+    'expect a new node',
+  )
+
+  const merged = await createDB('import_merge')
+  await merged.l.storeMessages([falconNameMessage])
+  const mem = {}
+  merged.l.listenChanges(syncDatasetMem(mem))
+  assert.equal(
+    await merged.l.importReplica(source.l.exportReplica()),
+    2,
+    'expect both messages stored',
+  )
+  assert.deepEqual(
+    await merged.l.queryMessages(''),
+    [falconNameMessage, yodaNameMessage, yodaAge900Message],
+    'expect messages to be merged',
+  )
+  assert.deepEqual(
+    mem,
+    { people: { [yodaID]: { id: yodaID, name: 'Yoda', age: 900 } } },
+    'expect changes to be applied',
+  )
+  const clock = Clock.fromJSON(JSON.parse((await merged.l.get('clock'))!))
+  const expected = new Merkle()
+  expected.insert(Timestamp.fromJSON(yodaNameMessage.timestamp))
+  expected.insert(Timestamp.fromJSON(yodaAge900Message.timestamp))
+  assert.equal(clock.merkle.diff(expected), undefined, 'expect merkle updated')
+
+  await assert.rejects(
+    merged.l.importReplica('{"format":"nope"}\n'),
+    /unknown replica format/,
+  )
+
+  await source.cleanUp()
+  await replaced.cleanUp()
+  await merged.cleanUp()
+})
+
 QUnit.test('Sync Dataset IndexedDB', async assert => {
   const datasetPrefix = `${nanoid()}_`
   const upgradeDB = (db: IDBPDatabase) => {
@@ -257,6 +563,149 @@ QUnit.test('Load Dataset Mem', async assert => {
   await cleanUp()
 })
 
+QUnit.test('Load Dataset Mem Subset', async assert => {
+  const { l, db, cleanUp } = await createDB('load_mem_subset')
+  await l.storeMessages([falconNameMessage, yodaNameMessage, yodaAge950Message])
+
+  const mem = {}
+  await loadDatasetMem(mem, db, '', [falconNameMessage.dataset])
+  assert.deepEqual(
+    mem,
+    {
+      [falconNameMessage.dataset]: {
+        [falconNameMessage.row]: {
+          id: falconNameMessage.row,
+          [falconNameMessage.column]: falconNameMessage.value,
+        },
+      },
+    },
+    'expect only the requested dataset',
+  )
+  await cleanUp()
+})
+
+const makeKey = () =>
+  crypto.subtle.importKey(
+    'raw',
+    crypto.getRandomValues(new Uint8Array(32)),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  )
+
+QUnit.test('Encryption', async assert => {
+  const encryption = { key: await makeKey(), ids: true }
+  const { l, db, cleanUp } = await createDB(
+    'encryption',
+    undefined,
+    new LocalIndexedDB('', encryption),
+  )
+  const messages = [yodaNameMessage, yodaAge900Message]
+  await l.storeMessages(messages)
+  const stored: Message[] = await db.getAll('message_log')
+  stored.forEach((msg, i) => {
+    assert.equal(msg.dataset, messages[i].dataset, 'expect plaintext dataset')
+    assert.notEqual(msg.row, messages[i].row, 'expect encrypted row')
+    assert.notEqual(msg.column, messages[i].column, 'expect encrypted column')
+    assert.notEqual(msg.value, messages[i].value, 'expect encrypted value')
+  })
+  assert.deepEqual(
+    await l.queryMessages(''),
+    messages,
+    'expect decrypted messages',
+  )
+  assert.deepEqual(
+    await l.queryLatestMessages([yodaAge950Message]),
+    [yodaAge900Message],
+    'expect decrypted latest message',
+  )
+  const mem = {}
+  await loadDatasetMem(mem, db, '', undefined, encryption)
+  assert.deepEqual(
+    mem,
+    { people: { [yodaID]: { id: yodaID, name: 'Yoda', age: 900 } } },
+    'expect decrypted mem',
+  )
+
+  const rotated = { key: await makeKey() }
+  await l.rotateKey(rotated)
+  await l.storeMessages([yodaAge950Message])
+  assert.deepEqual(
+    await l.queryLatestMessages([yodaAge950Message]),
+    [yodaAge950Message],
+    'expect latest message after rotation',
+  )
+  await assert.rejects(
+    loadDatasetMem({}, db, '', undefined, encryption),
+    'expect the old key to fail',
+  )
+  const rotatedMem = {}
+  await loadDatasetMem(rotatedMem, db, '', undefined, rotated)
+  assert.deepEqual(
+    rotatedMem,
+    { people: { [yodaID]: { id: yodaID, name: 'Yoda', age: 950 } } },
+    'expect mem using the new key',
+  )
+
+  await l.rotateKey()
+  assert.deepEqual(
+    await db.getAll('message_log'),
+    [...messages, yodaAge950Message],
+    'expect plaintext after removing the key',
+  )
+  await cleanUp()
+})
+
+QUnit.test('Codecs', async assert => {
+  const codecs = new Codecs()
+  const at = new Date(1599729600000)
+  const encoded = codecs.encode([at, { count: 7n }])
+  assert.deepEqual(
+    JSON.parse(JSON.stringify(encoded)),
+    [
+      { $codec: 'date', value: at.toISOString() },
+      { count: { $codec: 'bigint', value: '7' } },
+    ],
+    'expect values encoded within arrays and objects',
+  )
+  assert.deepEqual(
+    codecs.decode(JSON.parse(JSON.stringify(encoded))),
+    [at, { count: 7n }],
+    'expect values decoded',
+  )
+  const unknown = { $codec: 'point', value: [1, 2] }
+  assert.deepEqual(codecs.decode(unknown), unknown, 'expect unknown tags kept')
+  assert.throws(
+    () => new Codecs([...defaultCodecs, defaultCodecs[0]]),
+    /duplicate codec tag "date"/,
+  )
+
+  const { l, db, cleanUp } = await createDB('codecs')
+  l.setCodecs(codecs)
+  const changes: Changes[] = []
+  l.listenChanges(c => changes.push(c))
+  const message = {
+    ...yodaNameMessage,
+    column: 'bytes',
+    value: codecs.encode(Uint8Array.of(1, 2)),
+  }
+  await l.applyChanges([message])
+  await l.storeMessages([message])
+  assert.deepEqual(
+    changes,
+    [{ people: { [yodaID]: { bytes: Uint8Array.of(1, 2) } } }],
+    'expect changes decoded',
+  )
+  const mem: any = {}
+  await loadDatasetMem(mem, db, '', undefined, undefined, codecs)
+  assert.deepEqual(
+    mem.people[yodaID].bytes,
+    Uint8Array.of(1, 2),
+    'expect loaded values decoded',
+  )
+  await cleanUp()
+})
+
 QUnit.test('Changes', async assert => {
   const { l, cleanUp } = await createDB('store_query_latest')
   const changes: Changes[] = []
@@ -295,6 +744,42 @@ QUnit.test('Changes', async assert => {
   await cleanUp()
 })
 
+QUnit.test('Watch', async assert => {
+  const { l, cleanUp } = await createDB('watch')
+  const seen: { [key: string]: Changes[] } = {
+    people: [],
+    yoda: [],
+    yodaAge: [],
+    falconName: [],
+  }
+  l.watch('people', c => seen.people.push(c))
+  l.watch('people', yodaID, c => seen.yoda.push(c))
+  l.watch('people', yodaID, 'age', c => seen.yodaAge.push(c))
+  const unsubscribe = l.watch('spaceship', falconID, 'name', c =>
+    seen.falconName.push(c),
+  )
+  await l.applyChanges([yodaNameMessage])
+  unsubscribe()
+  await l.applyChanges([falconNameMessage, yodaAge950Message])
+  assert.deepEqual(
+    seen,
+    {
+      people: [
+        { people: { [yodaID]: { name: 'Yoda' } } },
+        { people: { [yodaID]: { age: 950 } } },
+      ],
+      yoda: [
+        { people: { [yodaID]: { name: 'Yoda' } } },
+        { people: { [yodaID]: { age: 950 } } },
+      ],
+      yodaAge: [{ people: { [yodaID]: { age: 950 } } }],
+      falconName: [],
+    },
+    'expect only scoped changes',
+  )
+  await cleanUp()
+})
+
 QUnit.test('Multiple Changes of Same Column takes Latest', async assert => {
   const { l, cleanUp } = await createDB('store_query_latest')
   const changes: Changes[] = []